@@ -6,6 +6,7 @@
  */
 
 import { PDFViewer } from '@the-trybe/react-pdf-viewer';
+import './worker';
 
 interface AuthenticatedPDFProps {
   documentId: string;
@@ -24,7 +25,7 @@ export function BearerTokenAuth({ documentId, authToken }: AuthenticatedPDFProps
           Authorization: `Bearer ${authToken}`,
         }}
         onLoadError={(error) => {
-          if (error.message.includes('401')) {
+          if (error.code === 'HTTP_STATUS' && error.status === 401) {
             console.error('Authentication failed. Token may be expired.');
           }
         }}
@@ -33,6 +34,32 @@ export function BearerTokenAuth({ documentId, authToken }: AuthenticatedPDFProps
   );
 }
 
+/**
+ * Using short-lived tokens that are refreshed when they expire
+ */
+export function RefreshingTokenAuth({
+  documentId,
+  getToken,
+  refreshToken,
+}: {
+  documentId: string;
+  getToken: () => string;
+  refreshToken: () => Promise<string>;
+}) {
+  return (
+    <div style={{ width: '100%', height: '600px' }}>
+      <PDFViewer
+        src={`/api/documents/${documentId}/pdf`}
+        requestInterceptor={async ({ retry }) => {
+          // Called for every request; `retry` is set after a 401
+          const token = retry ? await refreshToken() : getToken();
+          return { headers: { Authorization: `Bearer ${token}` } };
+        }}
+      />
+    </div>
+  );
+}
+
 /**
  * Using API key authentication
  */
@@ -6,6 +6,7 @@
  */
 
 import { PDFViewer } from '@the-trybe/react-pdf-viewer';
+import './worker';
 
 export function BasicUsage() {
   return (
@@ -23,9 +24,9 @@ export function WithInitialSettings() {
     <div style={{ width: '100%', height: '600px' }}>
       <PDFViewer
         src="/documents/sample.pdf"
-        page={2}
-        scale="page-fit"
-        rotation={0}
+        defaultPage={2}
+        defaultScale="page-fit"
+        defaultRotation={0}
       />
     </div>
   );
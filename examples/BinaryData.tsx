@@ -6,10 +6,12 @@
  * - Uint8Array
  * - ArrayBuffer
  * - Fetch response
+ * - File input
  */
 
 import { useState, useEffect } from 'react';
 import { PDFViewer } from '@the-trybe/react-pdf-viewer';
+import './worker';
 
 /**
  * Load PDF from Base64 string
@@ -140,19 +142,11 @@ export function FetchedPDF({ documentUrl }: { documentUrl: string }) {
  * Load PDF from file input
  */
 export function FileInputPDF() {
-  const [pdfData, setPdfData] = useState<Uint8Array | null>(null);
-  const [fileName, setFileName] = useState<string>('');
-
-  const handleFileChange = async (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setFileName(file.name);
+  const [file, setFile] = useState<File | null>(null);
 
-    const arrayBuffer = await file.arrayBuffer();
-    setPdfData(new Uint8Array(arrayBuffer));
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    // Files load directly, without reading them first
+    setFile(event.target.files?.[0] ?? null);
   };
 
   return (
@@ -185,15 +179,15 @@ export function FileInputPDF() {
           onChange={handleFileChange}
           style={{ display: 'none' }}
         />
-        {fileName && (
-          <span style={{ marginLeft: '16px', color: '#666' }}>{fileName}</span>
+        {file && (
+          <span style={{ marginLeft: '16px', color: '#666' }}>{file.name}</span>
         )}
       </div>
 
       {/* Viewer */}
       <div style={{ flex: 1 }}>
-        {pdfData ? (
-          <PDFViewer src={pdfData} />
+        {file ? (
+          <PDFViewer src={file} />
         ) : (
           <div
             style={{
@@ -7,6 +7,7 @@
 
 import { useRef, useState } from 'react';
 import { PDFViewer, PDFViewerRef, PDFDocumentInfo } from '@the-trybe/react-pdf-viewer';
+import './worker';
 
 export function ControlledViewer() {
   const viewerRef = useRef<PDFViewerRef>(null);
@@ -7,6 +7,7 @@
 
 import { useState } from 'react';
 import { PDFViewer } from '@the-trybe/react-pdf-viewer';
+import './worker';
 
 /**
  * Custom Spinner Component
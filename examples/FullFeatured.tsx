@@ -11,6 +11,7 @@ import {
   PDFViewerRef,
   PDFDocumentInfo,
 } from '@the-trybe/react-pdf-viewer';
+import './worker';
 
 interface DocumentViewerProps {
   src: string;
@@ -10,6 +10,7 @@ export { BasicUsage, WithInitialSettings, ReadOnlyViewer } from './BasicUsage';
 // Authentication examples
 export {
   BearerTokenAuth,
+  RefreshingTokenAuth,
   ApiKeyAuth,
   CookieAuth,
   PasswordProtectedPDF,
@@ -0,0 +1,11 @@
+/**
+ * Worker Setup
+ *
+ * The viewer needs the PDF.js worker before it loads a document. Resolve it
+ * from your app so the bundler copies the file and rewrites its URL; every
+ * example imports this module first.
+ */
+
+import { initializeWorker } from '@the-trybe/react-pdf-viewer';
+
+initializeWorker(new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url));
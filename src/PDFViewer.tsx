@@ -1,82 +1,396 @@
 import {
   forwardRef,
+  memo,
   useRef,
   useState,
   useEffect,
+  useLayoutEffect,
   useCallback,
   useMemo,
+  useId,
   type CSSProperties,
+  type ReactNode,
 } from 'react';
 import * as pdfjs from 'pdfjs-dist';
-import type { PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
 import type {
   PDFViewerProps,
   PDFViewerRef,
-  ScaleValue,
+  FitMode,
   RotationValue,
+  PageRotations,
+  ScrollMode,
+  SpreadMode,
+  RenderBudget,
+  RenderTiming,
+  LoadProgress,
 } from './PDFViewer.types';
-import { usePDFDocument } from './hooks/usePDFDocument';
+import { usePDFDocument, type PasswordRequest } from './hooks/usePDFDocument';
 import { usePDFViewer, usePDFViewerRef } from './hooks/usePDFViewer';
 import { useZoomPrevention } from './hooks/useZoomPrevention';
 import { usePageTracking } from './hooks/usePageTracking';
+import { useGestureZoom, type ZoomOrigin } from './hooks/useGestureZoom';
+import { usePresentationMode } from './hooks/usePresentationMode';
+import { useSwipeNavigation, type SwipeDirection } from './hooks/useSwipeNavigation';
+import {
+  getRotatedSize,
+  getPageRotation,
+  getSpreadPages,
+  getSpreads,
+  getPageElements,
+  findVisiblePageRange,
+  type PageSize,
+  type PageRange,
+  type ScrollAxis,
+} from './utils/pageLayout';
+import { captureScrollAnchor, restoreScrollAnchor, type ScrollAnchor } from './utils/scrollAnchor';
+import { selectRetainedPages, DEFAULT_RENDER_BUDGET } from './utils/renderBudget';
+import { reportPageError, type PDFViewerError } from './utils/errors';
+import { createRenderQueue, type CancellableRender, type RenderQueue } from './utils/renderQueue';
+import { createBitmapCache, type BitmapCache } from './utils/bitmapCache';
+import { calculateScale, clampScale } from './utils/scale';
+import {
+  shouldUseTiles,
+  getBackdropScale,
+  getVisibleTiles,
+  getPagePixels,
+  DEFAULT_MAX_CANVAS_PIXELS,
+  type Tile,
+} from './utils/tiles';
 import styles from './PDFViewer.module.css';
 
+/**
+ * Message shown by the default error component
+ */
+function getErrorMessage(error: PDFViewerError): string {
+  switch (error.code) {
+    case 'NETWORK':
+      return 'The PDF could not be downloaded. Check your connection and try again.';
+    case 'HTTP_STATUS':
+      if (error.status === 404) return 'The PDF could not be found.';
+      if (error.status === 401 || error.status === 403) {
+        return 'You do not have permission to view this PDF.';
+      }
+      return `The server could not provide the PDF (error ${error.status}).`;
+    case 'INVALID_PDF':
+      return 'This file is not a valid PDF or is damaged.';
+    case 'INVALID_SOURCE':
+      return 'The PDF could not be opened from the data provided.';
+    case 'PASSWORD_REQUIRED':
+      return 'This PDF is password protected.';
+    case 'PASSWORD_INCORRECT':
+      return 'The password for this PDF is incorrect.';
+    case 'WORKER_FAILED':
+      return 'The PDF viewer could not start. Reload the page and try again.';
+    case 'RENDER_FAILED':
+      return 'This PDF could not be displayed.';
+    default:
+      return 'Something went wrong while loading the PDF.';
+  }
+}
+
 /**
  * Default error component
  */
-function DefaultError({ message }: { message: string }) {
+function DefaultError({ error, onRetry }: { error: PDFViewerError; onRetry: () => void }) {
   return (
     <div className={styles.errorContainer}>
       <div className={styles.errorIcon}>!</div>
-      <div className={styles.errorMessage}>{message}</div>
+      <div className={styles.errorMessage}>{getErrorMessage(error)}</div>
+      <button type="button" className={styles.errorRetry} onClick={onRetry}>
+        Try again
+      </button>
     </div>
   );
 }
 
 /**
- * Default loading component
+ * Default loading component. Shows a progress bar once the download size is known.
  */
-function DefaultLoading() {
+function DefaultLoading({ progress }: { progress: LoadProgress | null }) {
+  if (!progress?.total) {
+    return (
+      <div className={styles.loadingContainer}>
+        <div className={styles.loadingSpinner} />
+        <div className={styles.loadingText}>Loading PDF...</div>
+      </div>
+    );
+  }
+
+  const percent = Math.min(100, Math.round((progress.loaded / progress.total) * 100));
+
   return (
     <div className={styles.loadingContainer}>
-      <div className={styles.loadingSpinner} />
-      <div className={styles.loadingText}>Loading PDF...</div>
+      <div
+        className={styles.loadingProgress}
+        role="progressbar"
+        aria-label="Loading PDF"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className={styles.loadingProgressBar} style={{ width: `${percent}%` }} />
+      </div>
+      <div className={styles.loadingText}>Loading PDF... {percent}%</div>
     </div>
   );
 }
 
+/**
+ * Built-in password dialog, shown while a password request is pending
+ */
+function PasswordDialog({ request }: { request: PasswordRequest }) {
+  const [value, setValue] = useState('');
+  const id = useId();
+  const titleId = `${id}-title`;
+  const errorId = `${id}-error`;
+  const incorrect = request.reason === 'INCORRECT_PASSWORD';
+  const formRef = useRef<HTMLFormElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus moves into the dialog and goes back where it was once it closes
+  useEffect(() => {
+    const previous = window.document.activeElement as HTMLElement | null;
+    inputRef.current?.focus();
+    return () => {
+      if (previous?.isConnected) {
+        previous.focus();
+      }
+    };
+  }, []);
+
+  return (
+    <form
+      ref={formRef}
+      className={styles.passwordDialog}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+      onSubmit={(event) => {
+        event.preventDefault();
+        request.submit(value);
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') {
+          event.stopPropagation();
+          request.cancel();
+        } else if (event.key === 'Tab' && formRef.current) {
+          // Keep Tab and Shift+Tab within the modal
+          const focusable = Array.from(
+            formRef.current.querySelectorAll<HTMLElement>('input, button:not(:disabled)')
+          );
+          const first = focusable[0];
+          const last = focusable[focusable.length - 1];
+          if (event.shiftKey && event.target === first) {
+            event.preventDefault();
+            last.focus();
+          } else if (!event.shiftKey && event.target === last) {
+            event.preventDefault();
+            first.focus();
+          }
+        }
+      }}
+    >
+      <div id={titleId} className={styles.passwordTitle}>
+        This PDF is password protected
+      </div>
+      <label className={styles.passwordLabel}>
+        Password
+        <input
+          ref={inputRef}
+          className={styles.passwordInput}
+          type="password"
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          aria-invalid={incorrect}
+          aria-describedby={incorrect ? errorId : undefined}
+          autoComplete="off"
+        />
+      </label>
+      {incorrect && (
+        <div id={errorId} className={styles.passwordError} role="alert">
+          Incorrect password. Please try again.
+        </div>
+      )}
+      <div className={styles.passwordActions}>
+        <button type="button" className={styles.passwordButton} onClick={request.cancel}>
+          Cancel
+        </button>
+        <button type="submit" className={styles.passwordButton} disabled={!value}>
+          Open
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Full-resolution tile of a page rendered in tiled mode
+ */
+interface PageTileProps {
+  page: PDFPageProxy;
+  pageNumber: number;
+  tile: Tile;
+  scale: number;
+  rotation: RotationValue;
+  renderQueue: RenderQueue;
+  onRenderError: (error: unknown, pageNumber: number) => void;
+}
+
+const PageTile = memo(function PageTile({
+  page,
+  pageNumber,
+  tile,
+  scale,
+  rotation,
+  renderQueue,
+  onRenderError,
+}: PageTileProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const viewport = page.getViewport({ scale, rotation });
+    const pixelRatio = window.devicePixelRatio || 1;
+
+    const renderTask = renderQueue.enqueue(pageNumber, () => {
+      canvas.width = Math.ceil(tile.width * pixelRatio);
+      canvas.height = Math.ceil(tile.height * pixelRatio);
+
+      // Shift the page so only this tile's region lands on the canvas
+      return page.render({
+        canvasContext: context,
+        viewport,
+        transform: [pixelRatio, 0, 0, pixelRatio, -tile.x * pixelRatio, -tile.y * pixelRatio],
+      });
+    });
+
+    renderTask.promise.catch((error: Error) => {
+      if (error.name !== 'RenderingCancelledException') {
+        onRenderError(error, pageNumber);
+      }
+    });
+
+    return () => {
+      renderTask.cancel();
+      canvas.width = 0;
+      canvas.height = 0;
+    };
+  }, [page, pageNumber, tile, scale, rotation, renderQueue]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={styles.tile}
+      style={{ left: tile.x, top: tile.y, width: tile.width, height: tile.height }}
+    />
+  );
+});
+
+// Mounted pages showing each page proxy. Viewers of the same source share
+// one document, so a page's resources are only released once none shows it.
+const pageUsers = new WeakMap<PDFPageProxy, number>();
+
 /**
  * Individual page component
+ *
+ * Pages whose canvas would exceed `maxCanvasPixels` switch to tiled mode: the
+ * page canvas holds a low-resolution backdrop of the whole page, and only the
+ * tiles intersecting the viewport are rendered at full resolution on top.
  */
 interface PDFPageProps {
   page: PDFPageProxy;
   pageNumber: number;
+  width: number;
+  height: number;
   scale: number;
   rotation: RotationValue;
   enableTextSelection: boolean;
   enableAnnotations: boolean;
   enableLinks: boolean;
   showPageShadow: boolean;
-  onRenderComplete?: () => void;
+  maxCanvasPixels: number;
+  renderQueue: RenderQueue;
+  bitmapCache: BitmapCache;
+  containerRef: React.RefObject<HTMLDivElement>;
+  onRenderError: (error: unknown, pageNumber: number) => void;
 }
 
 function PDFPage({
   page,
   pageNumber,
+  width,
+  height,
   scale,
   rotation,
   enableTextSelection,
   enableAnnotations,
   enableLinks,
   showPageShadow,
-  onRenderComplete,
+  maxCanvasPixels,
+  renderQueue,
+  bitmapCache,
+  containerRef,
+  onRenderError,
 }: PDFPageProps) {
+  const pageRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const textLayerRef = useRef<HTMLDivElement>(null);
   const annotationLayerRef = useRef<HTMLDivElement>(null);
-  const renderTaskRef = useRef<RenderTask | null>(null);
+  const renderTaskRef = useRef<CancellableRender | null>(null);
+  // Size and rotation of the bitmap currently on the canvas
+  const renderedSizeRef = useRef<(PageSize & { rotation: RotationValue }) | null>(null);
+
+  const isTiled = shouldUseTiles(width, height, window.devicePixelRatio || 1, maxCanvasPixels);
+  const [tiles, setTiles] = useState<Tile[]>([]);
+
+  // Track which tiles intersect the viewport
+  useEffect(() => {
+    const container = containerRef.current;
+    const element = pageRef.current;
+
+    if (!isTiled || !container || !element) {
+      setTiles([]);
+      return;
+    }
+
+    let frame = 0;
+
+    const updateTiles = () => {
+      frame = 0;
+      const pageRect = element.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      const next = getVisibleTiles(width, height, {
+        left: containerRect.left - pageRect.left,
+        top: containerRect.top - pageRect.top,
+        right: containerRect.right - pageRect.left,
+        bottom: containerRect.bottom - pageRect.top,
+      });
+
+      setTiles((prev) =>
+        prev.length === next.length && prev.every((tile, index) => tile.key === next[index].key)
+          ? prev
+          : next
+      );
+    };
+
+    const handleScroll = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(updateTiles);
+      }
+    };
 
-  const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
+    updateTiles();
+    container.addEventListener('scroll', handleScroll, { passive: true });
+
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [isTiled, width, height, containerRef]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -94,31 +408,71 @@ function PDFPage({
     const viewport = page.getViewport({ scale, rotation });
     const pixelRatio = window.devicePixelRatio || 1;
 
-    // Set canvas dimensions
-    canvas.width = Math.floor(viewport.width * pixelRatio);
-    canvas.height = Math.floor(viewport.height * pixelRatio);
-    canvas.style.width = `${viewport.width}px`;
-    canvas.style.height = `${viewport.height}px`;
-
-    setDimensions({ width: viewport.width, height: viewport.height });
-
     const context = canvas.getContext('2d');
     if (!context) return;
 
-    context.scale(pixelRatio, pixelRatio);
+    // In tiled mode the page canvas only holds a low-resolution backdrop
+    const canvasScale = isTiled ? getBackdropScale(viewport.width, viewport.height) : pixelRatio;
 
-    // Render the page
-    const renderContext = {
-      canvasContext: context,
-      viewport,
-    };
+    // Show the previous render stretched to the new size until the new one is ready
+    const layers = [canvas, textLayer, annotationLayer];
+    const rendered = renderedSizeRef.current;
+    const cached = bitmapCache.get(pageNumber);
+
+    if (rendered && rendered.rotation === rotation) {
+      const transform = `scale(${viewport.width / rendered.width}, ${viewport.height / rendered.height})`;
+      layers.forEach((layer) => {
+        if (layer) layer.style.transform = transform;
+      });
+    } else if (cached && cached.rotation === rotation) {
+      canvas.width = cached.bitmap.width;
+      canvas.height = cached.bitmap.height;
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      context.drawImage(cached.bitmap, 0, 0);
+    } else if (rendered) {
+      // A bitmap in another orientation cannot stand in for this one
+      canvas.width = 0;
+      canvas.height = 0;
+      if (textLayer) textLayer.innerHTML = '';
+      if (annotationLayer) annotationLayer.innerHTML = '';
+    }
+
+    // Render offscreen so the visible canvas is never blank or half drawn
+    const target = window.document.createElement('canvas');
+
+    // Render the page once the queue schedules it
+    const renderTask = renderQueue.enqueue(pageNumber, () => {
+      target.width = Math.floor(viewport.width * canvasScale);
+      target.height = Math.floor(viewport.height * canvasScale);
+
+      const targetContext = target.getContext('2d');
+      if (!targetContext) {
+        throw new Error('Canvas 2D context is not available');
+      }
+      targetContext.scale(canvasScale, canvasScale);
 
-    const renderTask = page.render(renderContext);
+      return page.render({
+        canvasContext: targetContext,
+        viewport,
+      });
+    });
     renderTaskRef.current = renderTask;
 
     renderTask.promise
       .then(() => {
-        onRenderComplete?.();
+        // Swap in the new render (resizing also clears the canvas)
+        canvas.width = target.width;
+        canvas.height = target.height;
+        context.drawImage(target, 0, 0);
+        canvas.style.width = `${viewport.width}px`;
+        canvas.style.height = `${viewport.height}px`;
+        layers.forEach((layer) => {
+          if (layer) layer.style.transform = '';
+        });
+
+        renderedSizeRef.current = { width: viewport.width, height: viewport.height, rotation };
+        bitmapCache.store(pageNumber, canvas, rotation);
 
         // Render text layer
         if (textLayer && enableTextSelection) {
@@ -174,8 +528,12 @@ function PDFPage({
       })
       .catch((error: Error) => {
         if (error.name !== 'RenderingCancelledException') {
-          console.error('Error rendering page:', error);
+          onRenderError(error, pageNumber);
         }
+      })
+      .finally(() => {
+        target.width = 0;
+        target.height = 0;
       });
 
     return () => {
@@ -184,7 +542,47 @@ function PDFPage({
         renderTaskRef.current = null;
       }
     };
-  }, [page, scale, rotation, enableTextSelection, enableAnnotations, enableLinks, onRenderComplete]);
+  }, [
+    page,
+    pageNumber,
+    scale,
+    rotation,
+    enableTextSelection,
+    enableAnnotations,
+    enableLinks,
+    isTiled,
+    renderQueue,
+    bitmapCache,
+  ]);
+
+  // Release the canvas, layers and page resources when the page is evicted
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const textLayer = textLayerRef.current;
+    const annotationLayer = annotationLayerRef.current;
+    pageUsers.set(page, (pageUsers.get(page) ?? 0) + 1);
+
+    return () => {
+      renderTaskRef.current?.cancel();
+      renderTaskRef.current = null;
+
+      // Shrinking the canvas frees its backing store immediately (notably on iOS Safari)
+      if (canvas) {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+      if (textLayer) textLayer.innerHTML = '';
+      if (annotationLayer) annotationLayer.innerHTML = '';
+
+      const users = (pageUsers.get(page) ?? 1) - 1;
+      if (users > 0) {
+        pageUsers.set(page, users);
+      } else {
+        pageUsers.delete(page);
+        page.cleanup();
+      }
+    };
+  }, [page]);
 
   const pageClasses = [styles.page];
   if (showPageShadow) {
@@ -193,14 +591,24 @@ function PDFPage({
 
   return (
     <div
+      ref={pageRef}
       className={pageClasses.join(' ')}
       data-page-number={pageNumber}
-      style={{
-        width: dimensions.width || 'auto',
-        height: dimensions.height || 'auto',
-      }}
+      style={{ width, height }}
     >
       <canvas ref={canvasRef} className={styles.canvas} />
+      {tiles.map((tile) => (
+        <PageTile
+          key={tile.key}
+          page={page}
+          pageNumber={pageNumber}
+          tile={tile}
+          scale={scale}
+          rotation={rotation}
+          renderQueue={renderQueue}
+          onRenderError={onRenderError}
+        />
+      ))}
       {enableTextSelection && (
         <div
           ref={textLayerRef}
@@ -217,167 +625,452 @@ function PDFPage({
   );
 }
 
+/**
+ * Lightweight stand-in for a page that is outside the rendered window
+ */
+const PagePlaceholder = memo(function PagePlaceholder({
+  pageNumber,
+  width,
+  height,
+  failed = false,
+}: {
+  pageNumber: number;
+  width: number;
+  height: number;
+  /** The page could not be loaded */
+  failed?: boolean;
+}) {
+  return (
+    <div
+      className={failed ? `${styles.pagePlaceholder} ${styles.pageFailed}` : styles.pagePlaceholder}
+      data-page-number={pageNumber}
+      style={{ width, height }}
+    >
+      {failed && 'This page could not be loaded.'}
+    </div>
+  );
+});
+
 /**
  * Virtualized pages container
+ *
+ * Page proxies are only fetched for pages near the viewport. Pages that have
+ * not been fetched yet are laid out using the size of the first page, and the
+ * estimate is replaced once the real size is known. Pages that scroll away
+ * stay rendered until the render budget is exceeded.
  */
 interface PDFPagesProps {
   document: pdfjs.PDFDocumentProxy;
   scale: number;
   rotation: RotationValue;
+  pageRotations: PageRotations;
+  scrollMode: ScrollMode;
+  spreadMode: SpreadMode;
+  currentPage: number;
   enableTextSelection: boolean;
   enableAnnotations: boolean;
   enableLinks: boolean;
   showPageShadow: boolean;
   pageGap: number;
+  renderBudget: RenderBudget;
+  maxConcurrentRenders: number;
+  maxCanvasPixels: number;
+  onRenderTiming?: (timing: RenderTiming) => void;
+  onRenderError?: (error: PDFViewerError) => void;
   containerRef: React.RefObject<HTMLDivElement>;
 }
 
+// Number of container heights to render before and after the visible area
+const PAGE_OVERSCAN = 1;
+
+// Duration of page slide animations in milliseconds
+const SLIDE_DURATION = 250;
+
+function prefersReducedMotion(): boolean {
+  return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+}
+
+function getPagesElement(container: HTMLElement | null): HTMLElement | null {
+  return (container?.firstElementChild as HTMLElement | null) ?? null;
+}
+
+function animate(element: HTMLElement, keyframes: Keyframe[]): void {
+  // Not available in every environment
+  if (typeof element.animate !== 'function') return;
+  element.animate(keyframes, { duration: SLIDE_DURATION, easing: 'ease-out' });
+}
+
+function getInitialRange(numPages: number): PageRange {
+  return { start: 0, end: Math.min(numPages, 5) - 1 };
+}
+
+function getPageSize(page: PDFPageProxy): PageSize {
+  const viewport = page.getViewport({ scale: 1, rotation: 0 });
+  return { width: viewport.width, height: viewport.height };
+}
+
 function PDFPages({
   document,
   scale,
   rotation,
+  pageRotations,
+  scrollMode,
+  spreadMode,
+  currentPage,
   enableTextSelection,
   enableAnnotations,
   enableLinks,
   showPageShadow,
   pageGap,
+  renderBudget,
+  maxConcurrentRenders,
+  maxCanvasPixels,
+  onRenderTiming,
+  onRenderError,
   containerRef,
 }: PDFPagesProps) {
-  const [pages, setPages] = useState<PDFPageProxy[]>([]);
-  const [visibleRange, setVisibleRange] = useState({ start: 0, end: 5 });
+  const numPages = document.numPages;
+  const axis: ScrollAxis = scrollMode === 'horizontal' ? 'horizontal' : 'vertical';
+  // The only spread laid out in page mode (0-indexed)
+  const singleRange = useMemo<PageRange | null>(() => {
+    if (scrollMode !== 'page') return null;
+    const spread = getSpreadPages(currentPage, numPages, spreadMode);
+    return { start: spread[0] - 1, end: spread[spread.length - 1] - 1 };
+  }, [scrollMode, currentPage, numPages, spreadMode]);
+
+  const [layoutDocument, setLayoutDocument] = useState(document);
+  const [pages, setPages] = useState<Map<number, PDFPageProxy>>(() => new Map());
+  const [pageSizes, setPageSizes] = useState<Map<number, PageSize>>(() => new Map());
+  const [defaultSize, setDefaultSize] = useState<PageSize | null>(null);
+  const [visibleRange, setVisibleRange] = useState<PageRange>(() => getInitialRange(numPages));
+  const [retainedPages, setRetainedPages] = useState<Set<number>>(() => new Set());
+  // Pages that could not be fetched; they are not requested again
+  const [failedPages, setFailedPages] = useState<Set<number>>(() => new Set());
+
+  // Pages currently being fetched, and the document they belong to
+  const pendingPagesRef = useRef<Set<number>>(new Set());
+  const activeDocumentRef = useRef(document);
+  const pageSizesRef = useRef(pageSizes);
+  pageSizesRef.current = pageSizes;
+  // Scroll position to restore after page size corrections
+  const pendingAnchorRef = useRef<ScrollAnchor | null>(null);
+  // When each rendered page was last in the window, for LRU eviction
+  const lastSeenRef = useRef<Map<number, number>>(new Map());
+  const seenTickRef = useRef(0);
+  // Last scroll position, to pre-render pages in the scroll direction
+  const lastScrollRef = useRef(0);
+
+  const onRenderTimingRef = useRef(onRenderTiming);
+  onRenderTimingRef.current = onRenderTiming;
+  const onRenderErrorRef = useRef(onRenderError);
+  onRenderErrorRef.current = onRenderError;
+
+  const handleRenderError = useCallback((error: unknown, pageNumber: number) => {
+    reportPageError(error, pageNumber, onRenderErrorRef.current);
+  }, []);
+
+  const renderQueue = useMemo(
+    () =>
+      createRenderQueue({
+        concurrency: maxConcurrentRenders,
+        onRenderTiming: (timing) => onRenderTimingRef.current?.(timing),
+      }),
+    [maxConcurrentRenders]
+  );
 
-  // Load all pages (for virtual rendering, we load page proxies)
   useEffect(() => {
-    const loadPages = async () => {
-      const loadedPages: PDFPageProxy[] = [];
-      for (let i = 1; i <= document.numPages; i++) {
-        const page = await document.getPage(i);
-        loadedPages.push(page);
-      }
-      setPages(loadedPages);
+    return () => {
+      renderQueue.cancelAll();
     };
+  }, [renderQueue]);
 
-    loadPages();
+  // Snapshots of recently rendered pages, shown while pages re-render
+  const bitmapCache = useMemo(() => createBitmapCache(), []);
 
+  useEffect(() => {
     return () => {
-      // Pages are cleaned up when document is destroyed
+      bitmapCache.clear();
     };
-  }, [document]);
+  }, [bitmapCache, document]);
+
+  // Reset the layout when the document changes
+  if (layoutDocument !== document) {
+    setLayoutDocument(document);
+    setPages(new Map());
+    setPageSizes(new Map());
+    setDefaultSize(null);
+    setVisibleRange(getInitialRange(numPages));
+    setRetainedPages(new Set());
+    setFailedPages(new Set());
+  }
 
-  // Track visible pages for virtualization
+  // Use the first page as the size estimate for pages not fetched yet
   useEffect(() => {
-    const container = containerRef.current;
-    if (!container || pages.length === 0) return;
+    activeDocumentRef.current = document;
+    pendingPagesRef.current = new Set();
+    lastSeenRef.current = new Map();
+
+    document.getPage(1).then(
+      (page) => {
+        if (activeDocumentRef.current !== document) return;
+        setDefaultSize(getPageSize(page));
+      },
+      (error: unknown) => {
+        if (activeDocumentRef.current !== document) return;
+        handleRenderError(error, 1);
+      }
+    );
+  }, [document, handleRenderError]);
 
-    const updateVisibleRange = () => {
-      const scrollTop = container.scrollTop;
-      const containerHeight = container.clientHeight;
-      const pageElements = container.querySelectorAll('[data-page-number]');
+  // Keep the window plus the most recently seen pages that fit in the budget
+  useEffect(() => {
+    if (!defaultSize) return;
+
+    const tick = ++seenTickRef.current;
+    const lastSeen = lastSeenRef.current;
+    const visiblePages: number[] = [];
+    for (let pageNumber = visibleRange.start + 1; pageNumber <= visibleRange.end + 1; pageNumber++) {
+      visiblePages.push(pageNumber);
+      lastSeen.set(pageNumber, tick);
+    }
 
-      let startIndex = 0;
-      let endIndex = pages.length - 1;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const container = containerRef.current;
+    const viewportSize = container
+      ? { width: container.clientWidth, height: container.clientHeight }
+      : null;
+    const retained = selectRetainedPages(
+      visiblePages,
+      lastSeen,
+      (pageNumber) => {
+        // Only pages in view hold full-resolution tiles
+        const size = pageSizes.get(pageNumber) ?? defaultSize;
+        return getPagePixels(
+          size.width * scale,
+          size.height * scale,
+          pixelRatio,
+          maxCanvasPixels,
+          visiblePages.includes(pageNumber) ? viewportSize : null
+        );
+      },
+      renderBudget
+    );
 
-      pageElements.forEach((element, index) => {
-        const rect = element.getBoundingClientRect();
-        const containerRect = container.getBoundingClientRect();
-        const elementTop = rect.top - containerRect.top;
-        const elementBottom = rect.bottom - containerRect.top;
+    lastSeen.forEach((_, pageNumber) => {
+      if (!retained.has(pageNumber)) lastSeen.delete(pageNumber);
+    });
 
-        // Buffer of 2 pages before and after
-        if (elementBottom < -containerHeight) {
-          startIndex = Math.max(0, index - 2);
-        }
-        if (elementTop > containerHeight * 2) {
-          endIndex = Math.min(pages.length - 1, index + 2);
+    setRetainedPages((prev) =>
+      prev.size === retained.size && Array.from(retained).every((pageNumber) => prev.has(pageNumber))
+        ? prev
+        : retained
+    );
+  }, [visibleRange, defaultSize, pageSizes, scale, renderBudget, maxCanvasPixels, containerRef]);
+
+  // Fetch page proxies for the window and drop the ones that were evicted
+  useEffect(() => {
+    if (!defaultSize) return;
+
+    const pending = pendingPagesRef.current;
+
+    for (let pageNumber = visibleRange.start + 1; pageNumber <= visibleRange.end + 1; pageNumber++) {
+      if (pages.has(pageNumber) || pending.has(pageNumber) || failedPages.has(pageNumber)) continue;
+
+      pending.add(pageNumber);
+      document.getPage(pageNumber).then(
+        (page) => {
+          pending.delete(pageNumber);
+          if (activeDocumentRef.current !== document) return;
+
+          const size = getPageSize(page);
+          const container = containerRef.current;
+
+          // Keep the visible content in place when the estimate was wrong
+          if (
+            !pageSizesRef.current.has(pageNumber) &&
+            (size.width !== defaultSize.width || size.height !== defaultSize.height)
+          ) {
+            if (container && !pendingAnchorRef.current) {
+              pendingAnchorRef.current = captureScrollAnchor(container, undefined, axis);
+            }
+            setPageSizes((prev) => new Map(prev).set(pageNumber, size));
+          }
+
+          setPages((prev) => new Map(prev).set(pageNumber, page));
+        },
+        (error: unknown) => {
+          pending.delete(pageNumber);
+          if (activeDocumentRef.current !== document) return;
+
+          setFailedPages((prev) => new Set(prev).add(pageNumber));
+          handleRenderError(error, pageNumber);
         }
+      );
+    }
+
+    // Release proxies that were evicted
+    const stalePages = Array.from(pages.keys()).filter(
+      (pageNumber) =>
+        !retainedPages.has(pageNumber) &&
+        (pageNumber - 1 < visibleRange.start || pageNumber - 1 > visibleRange.end)
+    );
+    if (stalePages.length > 0) {
+      setPages((prev) => {
+        const next = new Map(prev);
+        stalePages.forEach((pageNumber) => next.delete(pageNumber));
+        return next;
       });
+    }
+  }, [
+    document,
+    defaultSize,
+    visibleRange,
+    retainedPages,
+    pages,
+    failedPages,
+    containerRef,
+    axis,
+    handleRenderError,
+  ]);
 
-      // Ensure we always render at least 5 pages around current position
-      const visibleStart = Math.max(0, startIndex - 2);
-      const visibleEnd = Math.min(pages.length - 1, endIndex + 2);
+  // Restore the scroll anchor once corrected sizes are laid out
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = pendingAnchorRef.current;
+    pendingAnchorRef.current = null;
 
-      setVisibleRange({ start: visibleStart, end: visibleEnd });
-    };
+    if (container && anchor) {
+      restoreScrollAnchor(container, anchor);
+    }
+  }, [pageSizes, containerRef]);
 
-    // Initial calculation
-    updateVisibleRange();
+  // Track visible pages for virtualization
+  const updateVisibleRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let range: PageRange | null;
+    let visible: PageRange | null;
+    if (singleRange) {
+      range = visible = singleRange;
+    } else {
+      const elements = getPageElements(container);
+      const viewSize = axis === 'horizontal' ? container.clientWidth : container.clientHeight;
+      range = findVisiblePageRange(container, elements, viewSize * PAGE_OVERSCAN, axis);
+      visible = findVisiblePageRange(container, elements, 0, axis);
+    }
+    if (!range || !visible) return;
+
+    const scrollPosition = axis === 'horizontal' ? container.scrollLeft : container.scrollTop;
+    const direction = scrollPosition >= lastScrollRef.current ? 1 : -1;
+    lastScrollRef.current = scrollPosition;
+    renderQueue.setViewport({ visible, window: range, direction });
+
+    const nextRange = range;
+    setVisibleRange((prev) =>
+      prev.start === nextRange.start && prev.end === nextRange.end ? prev : nextRange
+    );
+  }, [containerRef, renderQueue, axis, singleRange]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
 
-    // Listen for scroll
     container.addEventListener('scroll', updateVisibleRange, { passive: true });
 
     return () => {
       container.removeEventListener('scroll', updateVisibleRange);
     };
-  }, [containerRef, pages]);
+  }, [containerRef, updateVisibleRange]);
 
-  return (
-    <div className={styles.pagesContainer} style={{ gap: pageGap }}>
-      {pages.map((page, index) => {
-        const pageNumber = index + 1;
-        const isVisible = index >= visibleRange.start && index <= visibleRange.end;
-
-        if (!isVisible) {
-          // Render placeholder for non-visible pages
-          const viewport = page.getViewport({ scale, rotation });
-          return (
-            <div
-              key={pageNumber}
-              className={styles.pagePlaceholder}
-              data-page-number={pageNumber}
-              style={{
-                width: viewport.width,
-                height: viewport.height,
-              }}
-            />
-          );
-        }
-
-        return (
-          <PDFPage
-            key={pageNumber}
-            page={page}
-            pageNumber={pageNumber}
-            scale={scale}
-            rotation={rotation}
-            enableTextSelection={enableTextSelection}
-            enableAnnotations={enableAnnotations}
-            enableLinks={enableLinks}
-            showPageShadow={showPageShadow}
-          />
-        );
-      })}
-    </div>
-  );
-}
+  // Recalculate when the layout changes
+  useEffect(() => {
+    updateVisibleRange();
+  }, [updateVisibleRange, defaultSize, pageSizes, scale, rotation, pageRotations]);
+
+  const pagesClasses = [styles.pagesContainer];
+  if (scrollMode === 'horizontal') {
+    pagesClasses.push(styles.pagesHorizontal);
+  } else if (scrollMode === 'wrapped') {
+    pagesClasses.push(styles.pagesWrapped);
+  } else if (scrollMode === 'page') {
+    pagesClasses.push(styles.pagesSingle);
+  }
 
-/**
- * Calculate initial scale based on scale prop
- */
-function calculateInitialScale(
-  scaleValue: ScaleValue,
-  containerWidth: number,
-  containerHeight: number,
-  pageWidth: number,
-  pageHeight: number
-): number {
-  if (typeof scaleValue === 'number') {
-    return scaleValue;
+  if (!defaultSize) {
+    return <div className={pagesClasses.join(' ')} style={{ gap: pageGap }} />;
   }
 
-  const availableWidth = containerWidth - 40; // padding
-  const availableHeight = containerHeight - 40;
-
-  switch (scaleValue) {
-    case 'page-width':
-      return availableWidth / pageWidth;
-    case 'page-fit':
-      return Math.min(availableWidth / pageWidth, availableHeight / pageHeight);
-    case 'page-actual':
-      return 1;
-    case 'auto':
-    default:
-      return Math.min(availableWidth / pageWidth, 1.5);
+  const renderPage = (pageNumber: number): ReactNode => {
+    const pageRotation = getPageRotation(rotation, pageRotations, pageNumber);
+    const size = getRotatedSize(pageSizes.get(pageNumber) ?? defaultSize, pageRotation);
+    const width = size.width * scale;
+    const height = size.height * scale;
+    const page = pages.get(pageNumber);
+
+    if (!page || !retainedPages.has(pageNumber)) {
+      return (
+        <PagePlaceholder
+          key={pageNumber}
+          pageNumber={pageNumber}
+          width={width}
+          height={height}
+          failed={failedPages.has(pageNumber)}
+        />
+      );
+    }
+
+    return (
+      <PDFPage
+        key={pageNumber}
+        page={page}
+        pageNumber={pageNumber}
+        width={width}
+        height={height}
+        scale={scale}
+        rotation={pageRotation}
+        enableTextSelection={enableTextSelection}
+        enableAnnotations={enableAnnotations}
+        enableLinks={enableLinks}
+        showPageShadow={showPageShadow}
+        maxCanvasPixels={maxCanvasPixels}
+        renderQueue={renderQueue}
+        bitmapCache={bitmapCache}
+        containerRef={containerRef}
+        onRenderError={handleRenderError}
+      />
+    );
+  };
+
+  const spreads = singleRange
+    ? [
+        Array.from(
+          { length: singleRange.end - singleRange.start + 1 },
+          (_, offset) => singleRange.start + offset + 1
+        ),
+      ]
+    : getSpreads(numPages, spreadMode);
+
+  const items: ReactNode[] = [];
+  for (const spread of spreads) {
+    if (spreadMode === 'none') {
+      items.push(renderPage(spread[0]));
+      continue;
+    }
+
+    // Facing pages share a row
+    items.push(
+      <div key={`spread-${spread[0]}`} className={styles.spread} style={{ gap: pageGap }}>
+        {spread.map(renderPage)}
+      </div>
+    );
   }
+
+  return (
+    <div className={pagesClasses.join(' ')} style={{ gap: pageGap }}>
+      {items}
+    </div>
+  );
 }
 
 /**
@@ -388,19 +1081,31 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     src,
     httpHeaders,
     withCredentials = false,
-    scale: scaleProp = 'page-width',
-    page: pageProp = 1,
-    rotation: rotationProp = 0,
+    scale: scaleProp,
+    defaultScale = 'page-width',
+    page: pageProp,
+    defaultPage = 1,
+    rotation: rotationProp,
+    defaultRotation = 0,
+    pageRotations: pageRotationsProp,
+    scrollMode: scrollModeProp = 'vertical',
+    spreadMode = 'none',
     enableZoom = false,
+    enableSwipe = true,
+    swipeAnimation = false,
     enableTextSelection = true,
     enableLinks = true,
     enableAnnotations = true,
     backgroundColor = '#f5f5f5',
     pageGap = 10,
     showPageShadow = true,
+    renderBudget = DEFAULT_RENDER_BUDGET,
+    maxConcurrentRenders = 2,
+    maxCanvasPixels = DEFAULT_MAX_CANVAS_PIXELS,
     className,
     style,
     workerSrc,
+    workerPort,
     cMapUrl,
     password,
     loading,
@@ -408,99 +1113,182 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     onLoadStart,
     onLoadSuccess,
     onLoadError,
+    onLoadProgress,
     onPageChange,
     onScaleChange,
+    onRotationChange,
+    onPageRotationChange,
+    onPresentationModeChange,
     onPasswordRequired,
+    onPassword,
+    passwordDialog = false,
+    retry,
+    requestInterceptor,
+    onRenderTiming,
+    onRenderError,
   },
   ref
 ) {
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // State
-  const [currentPage, setCurrentPage] = useState(pageProp);
+  // State. Controlled props are the source of truth; the state mirrors them
+  // once applied, and holds the value for uncontrolled props.
+  const [currentPage, setCurrentPage] = useState(pageProp ?? defaultPage);
   const [currentScale, setCurrentScale] = useState(1);
-  const [currentRotation, setCurrentRotation] = useState<RotationValue>(rotationProp);
+  const [fitMode, setFitMode] = useState<FitMode | null>(null);
+  const [currentRotation, setCurrentRotation] = useState<RotationValue>(
+    rotationProp ?? defaultRotation
+  );
+  const [uncontrolledPageRotations, setUncontrolledPageRotations] = useState<PageRotations>({});
+  const [scrollMode, setScrollMode] = useState<ScrollMode>(scrollModeProp);
   const [initialScaleCalculated, setInitialScaleCalculated] = useState(false);
+  const [presentationScale, setPresentationScale] = useState<number | null>(null);
+
+  const currentPageRotations = pageRotationsProp ?? uncontrolledPageRotations;
+
+  const initialScale = scaleProp ?? defaultScale;
 
   // Load the PDF document
-  const { state, document, info, error } = usePDFDocument(src, {
+  const { state, document, info, error, progress, passwordRequest, reload } = usePDFDocument(src, {
     httpHeaders,
     withCredentials,
     cMapUrl,
     password,
     workerSrc,
+    workerPort,
     onLoadStart,
     onLoadSuccess,
     onLoadError,
+    onLoadProgress,
     onPasswordRequired,
+    onPassword,
+    promptForPassword: passwordDialog,
+    retry,
+    requestInterceptor,
   });
 
   const totalPages = info?.numPages ?? 0;
 
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+  const onRenderErrorRef = useRef(onRenderError);
+  onRenderErrorRef.current = onRenderError;
+
+  // Presentation mode shows one page at a time, fit to the screen, without
+  // changing the scale and scroll mode restored when it ends
+  const presentation = usePresentationMode({
+    containerRef,
+    onChange: onPresentationModeChange,
+  });
+  const presenting = presentation.isActive;
+  const layoutScrollMode: ScrollMode = presenting ? 'page' : scrollMode;
+  const layoutScale = presenting && presentationScale !== null ? presentationScale : currentScale;
+
   // Calculate initial scale when document loads
   useEffect(() => {
     if (!document || !containerRef.current || initialScaleCalculated) return;
 
-    document.getPage(1).then((page) => {
-      const viewport = page.getViewport({ scale: 1, rotation: rotationProp });
-      const container = containerRef.current;
-      if (!container) return;
-
-      const calculatedScale = calculateInitialScale(
-        scaleProp,
-        container.clientWidth,
-        container.clientHeight,
-        viewport.width,
-        viewport.height
-      );
+    document.getPage(1).then(
+      (page) => {
+        const viewport = page.getViewport({
+          scale: 1,
+          rotation: getPageRotation(currentRotation, currentPageRotations, 1),
+        });
+        const container = containerRef.current;
+        if (!container) return;
+
+        const calculatedScale = calculateScale(
+          initialScale,
+          container.clientWidth,
+          container.clientHeight,
+          viewport.width,
+          viewport.height,
+          spreadMode !== 'none' && document.numPages > 1 ? 2 : 1,
+          pageGap
+        );
 
-      setCurrentScale(calculatedScale);
-      setInitialScaleCalculated(true);
-    });
-  }, [document, scaleProp, rotationProp, initialScaleCalculated]);
+        setCurrentScale(calculatedScale);
+        setFitMode(typeof initialScale === 'number' ? null : initialScale);
+        setInitialScaleCalculated(true);
+      },
+      (error: unknown) => reportPageError(error, 1, onRenderErrorRef.current)
+    );
+  }, [
+    document,
+    initialScale,
+    currentRotation,
+    currentPageRotations,
+    spreadMode,
+    pageGap,
+    initialScaleCalculated,
+  ]);
 
   // Reset initial scale calculation when src changes
   useEffect(() => {
     setInitialScaleCalculated(false);
   }, [src]);
 
-  // Update page from prop
-  useEffect(() => {
-    if (pageProp !== currentPage && pageProp >= 1 && pageProp <= totalPages) {
-      setCurrentPage(pageProp);
-    }
-  }, [pageProp, currentPage, totalPages]);
-
-  // Update rotation from prop
-  useEffect(() => {
-    if (rotationProp !== currentRotation) {
-      setCurrentRotation(rotationProp);
-    }
-  }, [rotationProp, currentRotation]);
-
-  // Page change handler
+  // Page change handler. A controlled page only changes through the prop, and
+  // changes that only echo it are not reported. In spread modes the current
+  // page is the leading page of the spread.
   const handlePageChange = useCallback(
     (page: number) => {
-      setCurrentPage(page);
-      onPageChange?.(page);
+      const leadingPage = getSpreadPages(page, totalPages, spreadMode)[0];
+      if (leadingPage === currentPageRef.current) return;
+
+      if (pageProp === undefined || leadingPage === pageProp) {
+        setCurrentPage(leadingPage);
+      }
+      if (leadingPage !== pageProp) {
+        onPageChange?.(leadingPage);
+      }
     },
-    [onPageChange]
+    [totalPages, spreadMode, pageProp, onPageChange]
   );
 
-  // Scale change handler
+  // Scale change handler. A controlled scale only changes when the request
+  // matches the prop, such as a fit mode re-applied on resize.
   const handleScaleChange = useCallback(
-    (scale: number) => {
-      if (!enableZoom) return;
-      setCurrentScale(scale);
-      onScaleChange?.(scale);
+    (scale: number, nextFitMode: FitMode | null) => {
+      const matchesProp =
+        nextFitMode !== null
+          ? nextFitMode === scaleProp
+          : typeof scaleProp === 'number' && scale === clampScale(scaleProp);
+
+      if (scaleProp === undefined || matchesProp) {
+        setCurrentScale(scale);
+        setFitMode(nextFitMode);
+      }
+      if (!matchesProp || nextFitMode !== null) {
+        onScaleChange?.(scale, nextFitMode);
+      }
     },
-    [enableZoom, onScaleChange]
+    [scaleProp, onScaleChange]
   );
 
-  // Rotation change handler
-  const handleRotationChange = useCallback((rotation: RotationValue) => {
-    setCurrentRotation(rotation);
-  }, []);
+  // Rotation change handler. A controlled rotation only changes through the prop.
+  const handleRotationChange = useCallback(
+    (rotation: RotationValue) => {
+      if (rotationProp === undefined || rotation === rotationProp) {
+        setCurrentRotation(rotation);
+      }
+      if (rotation !== rotationProp) {
+        onRotationChange?.(rotation);
+      }
+    },
+    [rotationProp, onRotationChange]
+  );
+
+  // Page rotation change handler. Controlled page rotations only change through the prop.
+  const handlePageRotationChange = useCallback(
+    (pageNumber: number, rotation: RotationValue) => {
+      if (!pageRotationsProp) {
+        setUncontrolledPageRotations((prev) => ({ ...prev, [pageNumber]: rotation }));
+      }
+      onPageRotationChange?.(pageNumber, rotation);
+    },
+    [pageRotationsProp, onPageRotationChange]
+  );
 
   // Setup viewer methods
   const viewer = usePDFViewer({
@@ -509,17 +1297,25 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     currentPage,
     totalPages,
     currentScale,
+    currentFitMode: fitMode,
     currentRotation,
-    zoomEnabled: enableZoom,
+    currentPageRotations,
+    scrollMode: layoutScrollMode,
+    spreadMode,
+    pageGap,
+    zoomEnabled: enableZoom && !presenting,
     setCurrentPage: handlePageChange,
     setCurrentScale: handleScaleChange,
     setCurrentRotation: handleRotationChange,
+    setCurrentPageRotation: handlePageRotationChange,
+    setScrollMode,
     onPageChange,
     onScaleChange,
+    onRenderError,
   });
 
   // Expose ref API
-  usePDFViewerRef(ref, viewer);
+  usePDFViewerRef(ref, viewer, presentation);
 
   // Zoom prevention
   useZoomPrevention({
@@ -527,11 +1323,246 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     enabled: enableZoom,
   });
 
+  const { goToPage, applyScaleValue, setRotation } = viewer;
+
+  // Show the initial page once the document is laid out
+  useLayoutEffect(() => {
+    const initialPage = pageProp ?? defaultPage;
+    if (!initialScaleCalculated || initialPage <= 1) return;
+
+    const pageElement = containerRef.current?.querySelector(
+      `[data-page-number="${initialPage}"]`
+    );
+    pageElement?.scrollIntoView({ block: 'start' });
+  }, [initialScaleCalculated]);
+
+  // Follow the controlled page. Pages reached by scrolling are already current.
+  useEffect(() => {
+    if (pageProp === undefined || !initialScaleCalculated) return;
+    if (pageProp !== currentPageRef.current) {
+      goToPage(pageProp);
+    }
+  }, [pageProp, initialScaleCalculated, goToPage]);
+
+  // Follow the controlled scale
+  useEffect(() => {
+    if (scaleProp === undefined || !initialScaleCalculated) return;
+    applyScaleValue(scaleProp);
+  }, [scaleProp, initialScaleCalculated, applyScaleValue]);
+
+  // Follow the scroll mode prop
+  useEffect(() => {
+    setScrollMode(scrollModeProp);
+  }, [scrollModeProp]);
+
+  // Keep the current page in view when the scroll mode changes
+  const scrollModeRef = useRef(layoutScrollMode);
+  useLayoutEffect(() => {
+    if (scrollModeRef.current === layoutScrollMode) return;
+    scrollModeRef.current = layoutScrollMode;
+
+    const pageElement = containerRef.current?.querySelector(
+      `[data-page-number="${currentPageRef.current}"]`
+    );
+    pageElement?.scrollIntoView({ block: 'start', inline: 'start' });
+  }, [layoutScrollMode]);
+
+  // Fit the current page or spread to the screen while presenting
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!presenting || !document || !container) {
+      setPresentationScale(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fitPage = () => {
+      const pageNumber = currentPageRef.current;
+      document.getPage(pageNumber).then(
+        (page) => {
+          if (cancelled) return;
+
+          const viewport = page.getViewport({
+            scale: 1,
+            rotation: getPageRotation(currentRotation, currentPageRotations, pageNumber),
+          });
+          setPresentationScale(
+            calculateScale(
+              'page-fit',
+              container.clientWidth,
+              container.clientHeight,
+              viewport.width,
+              viewport.height,
+              spreadMode !== 'none' && totalPages > 1 ? 2 : 1,
+              pageGap
+            )
+          );
+        },
+        (error: unknown) => {
+          if (!cancelled) reportPageError(error, pageNumber, onRenderErrorRef.current);
+        }
+      );
+    };
+
+    fitPage();
+
+    const observer = new ResizeObserver(fitPage);
+    observer.observe(container);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [
+    presenting,
+    document,
+    currentPage,
+    currentRotation,
+    currentPageRotations,
+    spreadMode,
+    totalPages,
+    pageGap,
+  ]);
+
+  // Clicking advances while presenting. Links and selected text keep their clicks.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!presenting || !container) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const target = event.target as Element | null;
+      if (target?.closest('a, button, input, select, textarea')) return;
+      if (window.getSelection()?.toString()) return;
+
+      viewer.nextPage();
+    };
+
+    container.addEventListener('click', handleClick);
+
+    return () => {
+      container.removeEventListener('click', handleClick);
+    };
+  }, [presenting, viewer]);
+
+  // Swiping changes pages when one page or spread is shown at a time
+  const swipeEnabled = enableSwipe && layoutScrollMode === 'page' && totalPages > 1;
+  const animateSwipe = swipeAnimation && !prefersReducedMotion();
+  const swipeOffsetRef = useRef(0);
+  const pendingSlideRef = useRef<SwipeDirection | null>(null);
+
+  const handleSwipe = useCallback(
+    (direction: SwipeDirection) => {
+      const page = currentPageRef.current;
+      const spread = getSpreadPages(page, totalPages, spreadMode);
+      if (direction === 'next' ? spread[spread.length - 1] >= totalPages : page <= 1) return;
+
+      if (animateSwipe) {
+        pendingSlideRef.current = direction;
+      }
+      if (direction === 'next') {
+        viewer.nextPage();
+      } else {
+        viewer.previousPage();
+      }
+    },
+    [totalPages, spreadMode, animateSwipe, viewer.nextPage, viewer.previousPage]
+  );
+
+  // The pages follow the finger, and spring back when the swipe falls short
+  const handleSwipeMove = useCallback(
+    (offset: number) => {
+      const pagesElement = getPagesElement(containerRef.current);
+      if (!animateSwipe || !pagesElement) return;
+
+      const previousOffset = swipeOffsetRef.current;
+      swipeOffsetRef.current = offset;
+      pagesElement.style.transform = offset ? `translateX(${offset}px)` : '';
+
+      if (offset === 0 && previousOffset !== 0 && !pendingSlideRef.current) {
+        animate(pagesElement, [{ transform: `translateX(${previousOffset}px)` }, { transform: 'none' }]);
+      }
+    },
+    [animateSwipe]
+  );
+
+  useSwipeNavigation({
+    containerRef,
+    enabled: swipeEnabled,
+    onSwipe: handleSwipe,
+    onSwipeMove: handleSwipeMove,
+  });
+
+  // Slide the new page in from the side it was swiped from
+  useLayoutEffect(() => {
+    const direction = pendingSlideRef.current;
+    pendingSlideRef.current = null;
+
+    const container = containerRef.current;
+    const pagesElement = getPagesElement(container);
+    if (!direction || !container || !pagesElement) return;
+
+    const distance = direction === 'next' ? container.clientWidth : -container.clientWidth;
+    animate(pagesElement, [{ transform: `translateX(${distance}px)` }, { transform: 'none' }]);
+  }, [currentPage]);
+
+  // Follow the controlled rotation
+  useEffect(() => {
+    if (rotationProp === undefined) return;
+    setRotation(rotationProp);
+  }, [rotationProp, setRotation]);
+
+  // Read through a ref, as it changes with every scale step
+  const applyScaleValueRef = useRef(applyScaleValue);
+  applyScaleValueRef.current = applyScaleValue;
+
+  // Re-apply the active fit mode when the container is resized or pages rotate.
+  // Presentation mode fits pages separately, so the fit resumes when it ends.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !document || !fitMode || !initialScaleCalculated || presenting) return;
+
+    applyScaleValueRef.current(fitMode);
+
+    const observer = new ResizeObserver(() => {
+      applyScaleValueRef.current(fitMode);
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [
+    document,
+    fitMode,
+    initialScaleCalculated,
+    presenting,
+    currentRotation,
+    currentPageRotations,
+    spreadMode,
+    pageGap,
+  ]);
+
+  // Gesture zoom, keeping the point under the pointer or fingers in place
+  const handleGestureZoom = useCallback(
+    (scale: number, origin: ZoomOrigin) => {
+      viewer.setScale(scale, origin);
+    },
+    [viewer.setScale]
+  );
+
+  useGestureZoom({
+    containerRef,
+    enabled: enableZoom && !presenting,
+    scale: currentScale,
+    onZoom: handleGestureZoom,
+  });
+
   // Page tracking
   usePageTracking({
     containerRef,
     totalPages,
     onPageChange: handlePageChange,
+    axis: layoutScrollMode === 'horizontal' ? 'horizontal' : 'vertical',
   });
 
   // Keyboard navigation
@@ -541,7 +1572,8 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
 
     const handleKeyDown = (event: KeyboardEvent) => {
       // Check if focus is within the container
-      if (!container.contains(document.activeElement) && document.activeElement !== container) {
+      const { activeElement } = window.document;
+      if (!container.contains(activeElement) && activeElement !== container) {
         return;
       }
 
@@ -564,6 +1596,27 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
           event.preventDefault();
           viewer.goToPage(totalPages);
           break;
+        case 'ArrowRight':
+        case 'ArrowLeft':
+          // Left and right scroll the page natively in a single column
+          if (layoutScrollMode === 'vertical') break;
+          event.preventDefault();
+          if (event.key === 'ArrowRight') {
+            viewer.nextPage();
+          } else {
+            viewer.previousPage();
+          }
+          break;
+        case ' ':
+          // Space scrolls natively outside presentation mode
+          if (!presenting) break;
+          event.preventDefault();
+          if (event.shiftKey) {
+            viewer.previousPage();
+          } else {
+            viewer.nextPage();
+          }
+          break;
       }
     };
 
@@ -572,7 +1625,7 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     return () => {
       container.removeEventListener('keydown', handleKeyDown);
     };
-  }, [viewer, totalPages]);
+  }, [viewer, totalPages, layoutScrollMode, presenting]);
 
   // Container styles
   const containerStyle = useMemo<CSSProperties>(
@@ -590,6 +1643,21 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
   if (!enableTextSelection) {
     containerClasses.push(styles.noTextSelection);
   }
+  if (enableZoom) {
+    containerClasses.push(styles.gestureZoom);
+  }
+  if (swipeEnabled) {
+    containerClasses.push(styles.swipeNavigation);
+  }
+  if (presenting) {
+    containerClasses.push(styles.presenting);
+  }
+  if (presentation.isFallback) {
+    containerClasses.push(styles.presentingFallback);
+  }
+  if (presentation.cursorHidden) {
+    containerClasses.push(styles.cursorHidden);
+  }
 
   // Render based on state
   if (state === 'loading') {
@@ -599,10 +1667,14 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
         className={containerClasses.join(' ')}
         style={containerStyle}
         role="document"
-        aria-busy="true"
+        aria-busy={!passwordRequest}
         aria-label="Loading PDF document"
       >
-        {loading ?? <DefaultLoading />}
+        {passwordRequest ? (
+          <PasswordDialog request={passwordRequest} />
+        ) : (
+          loading ?? <DefaultLoading progress={progress} />
+        )}
       </div>
     );
   }
@@ -610,8 +1682,8 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
   if (state === 'error' && error) {
     const errorContent =
       typeof errorProp === 'function'
-        ? errorProp(error)
-        : errorProp ?? <DefaultError message={error.message} />;
+        ? errorProp(error, reload)
+        : errorProp ?? <DefaultError error={error} onRetry={reload} />;
 
     return (
       <div
@@ -649,13 +1721,22 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     >
       <PDFPages
         document={document}
-        scale={currentScale}
+        scale={layoutScale}
         rotation={currentRotation}
+        pageRotations={currentPageRotations}
+        scrollMode={layoutScrollMode}
+        spreadMode={spreadMode}
+        currentPage={currentPage}
         enableTextSelection={enableTextSelection}
         enableAnnotations={enableAnnotations}
         enableLinks={enableLinks}
         showPageShadow={showPageShadow}
         pageGap={pageGap}
+        renderBudget={renderBudget}
+        maxConcurrentRenders={maxConcurrentRenders}
+        maxCanvasPixels={maxCanvasPixels}
+        onRenderTiming={onRenderTiming}
+        onRenderError={onRenderError}
         containerRef={containerRef}
       />
     </div>
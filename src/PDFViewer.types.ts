@@ -1,20 +1,176 @@
 import type { CSSProperties, ReactNode } from 'react';
+import type { PDFViewerError } from './utils/errors';
 
 /**
- * PDF source type - can be a URL, Base64 data URI, or binary data
+ * A document read in byte ranges, for storage without a plain URL such as
+ * chunked storage, IndexedDB or per-chunk signed URLs
  */
-export type PDFSource = string | Uint8Array | ArrayBuffer;
+export interface PDFRangeSource {
+  /** Size of the document in bytes */
+  length: number;
+  /** Read the bytes from `begin` up to, but not including, `end` */
+  getRange(begin: number, end: number): Promise<Uint8Array | ArrayBuffer>;
+  /** Bytes from the start of the document, if already at hand */
+  initialData?: Uint8Array;
+}
+
+/**
+ * Produces the source when the document is loaded. The signal aborts when the
+ * load is no longer needed.
+ */
+export type PDFSourceFactory = (signal: AbortSignal) => Promise<PDFSource>;
+
+/**
+ * PDF source type - can be a URL, Base64 data URI, binary data, a Blob or
+ * File, a fetch Response, a range source, or a factory producing one of these
+ */
+export type PDFSource =
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | Response
+  | PDFRangeSource
+  | PDFSourceFactory;
 
 /**
  * Scale options for the PDF viewer
  */
-export type ScaleValue = number | 'page-width' | 'page-fit' | 'page-actual' | 'auto';
+export type ScaleValue = number | FitMode;
+
+/**
+ * Named scale modes that fit pages to the container. While one is active,
+ * the scale is recomputed whenever the container is resized.
+ */
+export type FitMode = 'page-width' | 'page-fit' | 'page-actual' | 'auto';
 
 /**
  * Rotation options for the PDF viewer (in degrees)
  */
 export type RotationValue = 0 | 90 | 180 | 270;
 
+/**
+ * Rotation of individual pages in degrees, keyed by page number (1-indexed).
+ * Page rotations are added to the document rotation.
+ */
+export type PageRotations = Record<number, RotationValue>;
+
+/**
+ * How pages are laid out and scrolled:
+ * - `'vertical'`: a single column
+ * - `'horizontal'`: a single row
+ * - `'wrapped'`: rows that wrap to the container width
+ * - `'page'`: one page at a time
+ */
+export type ScrollMode = 'vertical' | 'horizontal' | 'wrapped' | 'page';
+
+/**
+ * How pages are grouped into two-page spreads:
+ * - `'none'`: no spreads
+ * - `'odd'`: spreads start on odd pages (1-2, 3-4, ...)
+ * - `'even'`: the first page is a cover on its own, then spreads start on even pages (2-3, 4-5, ...)
+ */
+export type SpreadMode = 'none' | 'odd' | 'even';
+
+/**
+ * A point relative to the top-left corner of the viewer's visible area, in CSS pixels
+ */
+export interface ViewportPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Limits on how many pages keep their rendered canvases. Pages in or near the
+ * viewport are always rendered; other pages are released, least recently seen
+ * first, once either limit is exceeded.
+ */
+export interface RenderBudget {
+  /** Maximum number of pages with a rendered canvas */
+  maxPages?: number;
+  /** Maximum number of canvas pixels across all rendered pages, tiles included */
+  maxPixels?: number;
+}
+
+/**
+ * Whether a render was for a visible page or pre-rendered ahead of scrolling
+ */
+export type RenderPriority = 'visible' | 'prefetch';
+
+/**
+ * Timing information reported for every completed page render
+ */
+export interface RenderTiming {
+  /** Page that was rendered (1-indexed) */
+  pageNumber: number;
+  /** Priority the render ran with */
+  priority: RenderPriority;
+  /** Time spent waiting in the queue, in milliseconds */
+  waitTime: number;
+  /** Time spent rendering, in milliseconds */
+  renderTime: number;
+}
+
+/**
+ * Progress of a document download
+ */
+export interface LoadProgress {
+  /** Bytes loaded so far */
+  loaded: number;
+  /** Total size in bytes, or null when the server does not report it */
+  total: number | null;
+}
+
+/**
+ * Why a password is requested: none was given yet, or the last one was wrong
+ */
+export type PasswordReason = 'NEED_PASSWORD' | 'INCORRECT_PASSWORD';
+
+/**
+ * Kind of failure reported by a PDFViewerError
+ */
+export type PDFViewerErrorCode =
+  | 'NETWORK'
+  | 'HTTP_STATUS'
+  | 'INVALID_PDF'
+  | 'INVALID_SOURCE'
+  | 'PASSWORD_REQUIRED'
+  | 'PASSWORD_INCORRECT'
+  | 'WORKER_FAILED'
+  | 'RENDER_FAILED'
+  | 'UNKNOWN';
+
+/**
+ * A request the viewer is about to make for a URL source
+ */
+export interface PDFRequest {
+  /** URL of the document */
+  url: string;
+  /** Requested bytes, from `begin` up to but not including `end`, or null for the whole file */
+  range: { begin: number; end: number } | null;
+  /** Whether this repeats a request that got a 401 response; refresh credentials before answering */
+  retry: boolean;
+}
+
+/**
+ * Supplies the options of each request, such as fresh authorization headers
+ */
+export type RequestInterceptor = (request: PDFRequest) => RequestInit | Promise<RequestInit>;
+
+/**
+ * When and how often failed loads are retried
+ */
+export interface RetryPolicy {
+  /** Number of retries after the first failure (default: 2) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default: 1000) */
+  delay?: number;
+  /** Longest delay between retries in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Error codes to retry, or a predicate. Defaults to network errors and 408, 429 and 5xx responses. */
+  retryOn?: PDFViewerErrorCode[] | ((error: PDFViewerError) => boolean);
+}
+
 /**
  * Options for the find/search functionality
  */
@@ -61,18 +217,33 @@ export interface PDFViewerRef {
   previousPage(): void;
 
   // Zoom (only works if enableZoom={true})
+  // The document point under `anchor` (default: the viewport center) stays in place
   /** Zoom in by a step */
-  zoomIn(): void;
+  zoomIn(anchor?: ViewportPoint): void;
   /** Zoom out by a step */
-  zoomOut(): void;
+  zoomOut(anchor?: ViewportPoint): void;
   /** Set a specific scale value */
-  setScale(scale: ScaleValue): void;
+  setScale(scale: ScaleValue, anchor?: ViewportPoint): void;
 
   // Rotation
   /** Rotate the document by 90 or -90 degrees */
-  rotate(degrees: 90 | -90): void;
+  rotate(degrees: 90 | -90, anchor?: ViewportPoint): void;
   /** Set an absolute rotation value */
-  setRotation(degrees: RotationValue): void;
+  setRotation(degrees: RotationValue, anchor?: ViewportPoint): void;
+  /** Rotate a single page by 90 or -90 degrees */
+  rotatePage(pageNumber: number, degrees: 90 | -90, anchor?: ViewportPoint): void;
+
+  // Layout
+  /** Change how pages are laid out and scrolled */
+  setScrollMode(mode: ScrollMode): void;
+
+  // Presentation
+  /** Show the document fullscreen, one page at a time, scaled to fit the screen */
+  enterPresentationMode(): void;
+  /** Leave presentation mode */
+  exitPresentationMode(): void;
+  /** Whether presentation mode is active */
+  isPresentationMode(): boolean;
 
   // Info
   /** Get the current page number (1-indexed) */
@@ -81,6 +252,8 @@ export interface PDFViewerRef {
   getTotalPages(): number;
   /** Get the current scale value */
   getCurrentScale(): number;
+  /** Get the current scroll mode */
+  getScrollMode(): ScrollMode;
 
   // Search
   /** Start a find operation */
@@ -106,18 +279,54 @@ export interface PDFViewerProps {
   /** Include cookies in cross-origin requests */
   withCredentials?: boolean;
 
-  /** Initial scale/zoom level */
+  /**
+   * Scale/zoom level. When set, the scale is controlled: zooming only calls
+   * `onScaleChange` and the viewer follows this prop.
+   */
   scale?: ScaleValue;
 
-  /** Initial page to display (1-indexed) */
+  /** Initial scale/zoom level when `scale` is not controlled */
+  defaultScale?: ScaleValue;
+
+  /**
+   * Page to display (1-indexed). When set, the viewer scrolls to the page
+   * whenever this prop changes; scrolling is reported through `onPageChange`.
+   */
   page?: number;
 
-  /** Page rotation in degrees */
+  /** Initial page to display when `page` is not controlled (1-indexed) */
+  defaultPage?: number;
+
+  /**
+   * Page rotation in degrees. When set, the rotation is controlled: rotating
+   * only calls `onRotationChange` and the viewer follows this prop.
+   */
   rotation?: RotationValue;
 
+  /** Initial rotation when `rotation` is not controlled */
+  defaultRotation?: RotationValue;
+
+  /**
+   * Rotation of individual pages, on top of `rotation`. When set, page
+   * rotations are controlled: rotating a page only calls `onPageRotationChange`.
+   */
+  pageRotations?: PageRotations;
+
+  /** How pages are laid out and scrolled. The viewer follows changes to this prop. */
+  scrollMode?: ScrollMode;
+
+  /** How pages are grouped into two-page spreads */
+  spreadMode?: SpreadMode;
+
   /** Allow user zoom (pinch, Ctrl+scroll) */
   enableZoom?: boolean;
 
+  /** Change pages with horizontal swipes when one page or spread is shown at a time */
+  enableSwipe?: boolean;
+
+  /** Slide pages with the finger while swiping */
+  swipeAnimation?: boolean;
+
   /** Allow text selection */
   enableTextSelection?: boolean;
 
@@ -136,26 +345,47 @@ export interface PDFViewerProps {
   /** Show shadow around pages */
   showPageShadow?: boolean;
 
+  /** Limits on rendered pages kept in memory */
+  renderBudget?: RenderBudget;
+
+  /** Maximum number of pages rendering at the same time */
+  maxConcurrentRenders?: number;
+
+  /** Canvas pixel limit per page above which pages are rendered in tiles */
+  maxCanvasPixels?: number;
+
   /** Additional CSS class for container */
   className?: string;
 
   /** Inline styles for container */
   style?: CSSProperties;
 
-  /** Path to PDF.js worker file */
+  /** Path to PDF.js worker file; required unless `workerPort` is given */
   workerSrc?: string;
 
+  /** A PDF.js worker the app started itself, used instead of `workerSrc` */
+  workerPort?: Worker;
+
   /** Path to CMap files for CJK fonts */
   cMapUrl?: string;
 
   /** Password for protected PDFs */
   password?: string;
 
+  /**
+   * Supplies the options of every request for a URL source, including range
+   * requests. A 401 response is retried once with `retry` set.
+   */
+  requestInterceptor?: RequestInterceptor;
+
   /** Loading placeholder */
   loading?: ReactNode;
 
   /** Error placeholder */
-  error?: ReactNode | ((error: Error) => ReactNode);
+  error?: ReactNode | ((error: PDFViewerError, retry: () => void) => ReactNode);
+
+  /** Retry failed loads automatically. `true` uses the default policy. */
+  retry?: RetryPolicy | boolean;
 
   /** Called when PDF loading begins */
   onLoadStart?: () => void;
@@ -164,16 +394,43 @@ export interface PDFViewerProps {
   onLoadSuccess?: (pdf: PDFDocumentInfo) => void;
 
   /** Called when PDF fails to load */
-  onLoadError?: (error: Error) => void;
+  onLoadError?: (error: PDFViewerError) => void;
+
+  /** Called as the PDF downloads */
+  onLoadProgress?: (progress: LoadProgress) => void;
 
-  /** Called when visible page changes */
+  /** Called when visible page changes, with the leading page of the spread in spread modes */
   onPageChange?: (page: number) => void;
 
-  /** Called when scale changes (if zoom enabled) */
-  onScaleChange?: (scale: number) => void;
+  /** Called when scale changes, with the active fit mode (null after a numeric zoom) */
+  onScaleChange?: (scale: number, fitMode: FitMode | null) => void;
+
+  /** Called when rotation changes */
+  onRotationChange?: (rotation: RotationValue) => void;
+
+  /** Called when the rotation of a single page changes */
+  onPageRotationChange?: (pageNumber: number, rotation: RotationValue) => void;
+
+  /** Called when presentation mode is entered or exited */
+  onPresentationModeChange?: (active: boolean) => void;
 
   /** Called when a password is required */
   onPasswordRequired?: () => void;
+
+  /**
+   * Called when the PDF needs a password, and again after a wrong one.
+   * Resolve with the password to retry without downloading again; reject to give up.
+   */
+  onPassword?: (reason: PasswordReason) => Promise<string>;
+
+  /** Ask for the password with a built-in dialog when `onPassword` is not given */
+  passwordDialog?: boolean;
+
+  /** Called when a page fails to render, with a RENDER_FAILED error */
+  onRenderError?: (error: PDFViewerError) => void;
+
+  /** Called with timing information after each page render */
+  onRenderTiming?: (timing: RenderTiming) => void;
 }
 
 /**
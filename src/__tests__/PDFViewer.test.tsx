@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, act, fireEvent } from '@testing-library/react';
 import { createRef } from 'react';
+import * as pdfjs from 'pdfjs-dist';
 import { PDFViewer } from '../PDFViewer';
 import type { PDFViewerRef } from '../PDFViewer.types';
 
@@ -59,6 +60,74 @@ describe('PDFViewer', () => {
       expect(screen.queryByText(/loading/i)).not.toBeInTheDocument();
     });
 
+    it('shows download progress when the size is known', async () => {
+      const task = { promise: new Promise(() => {}), destroy: vi.fn(() => Promise.resolve()) };
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce(task as never);
+      const onLoadProgress = vi.fn();
+      render(<PDFViewer src="/progress.pdf" onLoadProgress={onLoadProgress} />);
+
+      const reportProgress = (task as unknown as pdfjs.PDFDocumentLoadingTask).onProgress;
+
+      // Spinner while the size is unknown
+      act(() => reportProgress({ loaded: 100, total: 0 }));
+      expect(onLoadProgress).toHaveBeenLastCalledWith({ loaded: 100, total: null });
+      expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+
+      act(() => reportProgress({ loaded: 250, total: 1000 }));
+      expect(onLoadProgress).toHaveBeenLastCalledWith({ loaded: 250, total: 1000 });
+      expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '25');
+      expect(screen.getByText('Loading PDF... 25%')).toBeInTheDocument();
+    });
+
+    it('asks for the password with the built-in dialog', async () => {
+      const task = { promise: new Promise(() => {}), destroy: vi.fn(() => Promise.resolve()) };
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce(task as never);
+      render(<PDFViewer src="/locked.pdf" passwordDialog />);
+
+      const requestPassword = (task as unknown as pdfjs.PDFDocumentLoadingTask).onPassword;
+      const updatePassword = vi.fn();
+      act(() => requestPassword(updatePassword, pdfjs.PasswordResponses.INCORRECT_PASSWORD));
+
+      expect(screen.getByRole('dialog', { name: 'This PDF is password protected' })).toBeInTheDocument();
+      expect(screen.getByRole('alert')).toHaveTextContent('Incorrect password');
+
+      fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'secret' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+
+      await waitFor(() => {
+        expect(updatePassword).toHaveBeenCalledWith('secret');
+      });
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('keeps focus inside the password dialog and restores it on close', async () => {
+      const task = { promise: new Promise(() => {}), destroy: vi.fn(() => Promise.resolve()) };
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce(task as never);
+      const outside = document.createElement('button');
+      document.body.appendChild(outside);
+      outside.focus();
+      render(<PDFViewer src="/locked.pdf" passwordDialog />);
+
+      const requestPassword = (task as unknown as pdfjs.PDFDocumentLoadingTask).onPassword;
+      act(() => requestPassword(vi.fn(), pdfjs.PasswordResponses.NEED_PASSWORD));
+
+      const input = screen.getByLabelText('Password');
+      const cancel = screen.getByRole('button', { name: 'Cancel' });
+      expect(input).toHaveFocus();
+
+      fireEvent.keyDown(input, { key: 'Tab', shiftKey: true });
+      expect(cancel).toHaveFocus();
+      fireEvent.keyDown(cancel, { key: 'Tab' });
+      expect(input).toHaveFocus();
+
+      fireEvent.click(cancel);
+      await waitFor(() => {
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      });
+      expect(outside).toHaveFocus();
+      outside.remove();
+    });
+
     it('calls onLoadStart when loading begins', async () => {
       const onLoadStart = vi.fn();
       render(<PDFViewer src="/test.pdf" onLoadStart={onLoadStart} />);
@@ -98,6 +167,340 @@ describe('PDFViewer', () => {
       render(<PDFViewer src="/test.pdf" scale="page-width" />);
       expect(screen.getByRole('document')).toBeInTheDocument();
     });
+
+    it('keeps one resize observer for a fit mode while the fitted scale changes', async () => {
+      const callbacks: ResizeObserverCallback[] = [];
+      const BaseResizeObserver = global.ResizeObserver;
+      global.ResizeObserver = class extends BaseResizeObserver {
+        constructor(callback: ResizeObserverCallback) {
+          super(callback);
+          callbacks.push(callback);
+        }
+      };
+
+      try {
+        const ref = createRef<PDFViewerRef>();
+        const { container } = render(<PDFViewer ref={ref} src="/test.pdf" scale="page-width" />);
+        await waitFor(() => {
+          expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+        });
+
+        const viewer = screen.getByRole('document');
+        const observerCount = callbacks.length;
+        for (const width of [800, 1200, 1600]) {
+          const scale = ref.current?.getCurrentScale();
+          Object.defineProperty(viewer, 'clientWidth', { value: width, configurable: true });
+          act(() => {
+            callbacks.forEach((callback) => callback([], {} as ResizeObserver));
+          });
+          await waitFor(() => {
+            expect(ref.current?.getCurrentScale()).not.toBe(scale);
+          });
+        }
+
+        expect(callbacks).toHaveLength(observerCount);
+      } finally {
+        global.ResizeObserver = BaseResizeObserver;
+      }
+    });
+  });
+
+  describe('virtualization', () => {
+    it('lays out an element for every page once loaded', async () => {
+      const { container } = render(<PDFViewer src="/test.pdf" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+      });
+    });
+
+    it('reports a page that fails to load and does not request it again', async () => {
+      const task = vi.mocked(pdfjs.getDocument)('/test.pdf');
+      const loaded = await task.promise;
+      const getPage = vi.fn((pageNumber: number) =>
+        pageNumber === 3 ? Promise.reject(new Error('Bad XRef entry')) : loaded.getPage(pageNumber)
+      );
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce({
+        ...task,
+        promise: Promise.resolve({ ...loaded, getPage }),
+      } as never);
+      const onRenderError = vi.fn();
+
+      const { container, rerender } = render(
+        <PDFViewer src="/broken-page.pdf" onRenderError={onRenderError} />
+      );
+
+      expect(await screen.findByText('This page could not be loaded.')).toBeInTheDocument();
+      expect(container.querySelector('[data-page-number="3"]')).toHaveTextContent(
+        'This page could not be loaded.'
+      );
+      expect(onRenderError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'RENDER_FAILED', pageNumber: 3 })
+      );
+
+      rerender(<PDFViewer src="/broken-page.pdf" onRenderError={onRenderError} scale={2} />);
+      await waitFor(() => {
+        expect(container.querySelector('[data-page-number="3"]')).toBeInTheDocument();
+      });
+      expect(getPage.mock.calls.filter(([pageNumber]) => pageNumber === 3)).toHaveLength(1);
+      expect(onRenderError).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps page resources while another viewer of the document shows the page', async () => {
+      const task = vi.mocked(pdfjs.getDocument)('/test.pdf');
+      const loaded = await task.promise;
+      // PDF.js hands out one proxy per page of a document
+      const first = await loaded.getPage(1);
+      const getPage = vi.fn((pageNumber: number) =>
+        pageNumber === 1 ? Promise.resolve(first) : loaded.getPage(pageNumber)
+      );
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce({
+        ...task,
+        promise: Promise.resolve({ ...loaded, getPage }),
+      } as never);
+
+      const viewers = [render(<PDFViewer src="/shared.pdf" />), render(<PDFViewer src="/shared.pdf" />)];
+      await waitFor(() => {
+        viewers.forEach(({ container }) => {
+          expect(container.querySelectorAll('[data-page-number] canvas').length).toBeGreaterThan(0);
+        });
+      });
+
+      viewers[0].unmount();
+      expect(first.cleanup).not.toHaveBeenCalled();
+
+      viewers[1].unmount();
+      expect(first.cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a failure to load the first page instead of rejecting unhandled', async () => {
+      const task = vi.mocked(pdfjs.getDocument)('/test.pdf');
+      const loaded = await task.promise;
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce({
+        ...task,
+        promise: Promise.resolve({
+          ...loaded,
+          getPage: vi.fn(() => Promise.reject(new Error('Worker was destroyed'))),
+        }),
+      } as never);
+      const onRenderError = vi.fn();
+
+      render(<PDFViewer src="/no-first-page.pdf" onRenderError={onRenderError} />);
+
+      await waitFor(() => {
+        expect(onRenderError).toHaveBeenCalledWith(expect.objectContaining({ pageNumber: 1 }));
+      });
+    });
+  });
+
+  describe('controlled mode', () => {
+    it('reports zoom requests without applying them', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const onScaleChange = vi.fn();
+      const { rerender } = render(
+        <PDFViewer ref={ref} src="/test.pdf" scale={1.5} enableZoom onScaleChange={onScaleChange} />
+      );
+
+      await waitFor(() => {
+        expect(ref.current?.getCurrentScale()).toBe(1.5);
+      });
+
+      act(() => ref.current?.zoomIn());
+      expect(onScaleChange).toHaveBeenCalledWith(1.75, null);
+      expect(ref.current?.getCurrentScale()).toBe(1.5);
+
+      rerender(
+        <PDFViewer ref={ref} src="/test.pdf" scale={1.75} enableZoom onScaleChange={onScaleChange} />
+      );
+      await waitFor(() => {
+        expect(ref.current?.getCurrentScale()).toBe(1.75);
+      });
+      expect(onScaleChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies the uncontrolled default scale', async () => {
+      const ref = createRef<PDFViewerRef>();
+      render(<PDFViewer ref={ref} src="/test.pdf" defaultScale={2} enableZoom />);
+
+      await waitFor(() => {
+        expect(ref.current?.getCurrentScale()).toBe(2);
+      });
+
+      act(() => ref.current?.zoomOut());
+      expect(ref.current?.getCurrentScale()).toBe(1.75);
+    });
+
+    it('reports page changes without applying them', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const onPageChange = vi.fn();
+      const { container, rerender } = render(
+        <PDFViewer ref={ref} src="/test.pdf" scrollMode="page" page={1} onPageChange={onPageChange} />
+      );
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(1);
+      });
+
+      act(() => ref.current?.nextPage());
+      expect(onPageChange).toHaveBeenLastCalledWith(2);
+      expect(ref.current?.getCurrentPage()).toBe(1);
+
+      rerender(
+        <PDFViewer ref={ref} src="/test.pdf" scrollMode="page" page={2} onPageChange={onPageChange} />
+      );
+      await waitFor(() => {
+        expect(ref.current?.getCurrentPage()).toBe(2);
+      });
+    });
+
+    it('reports rotation requests through onRotationChange', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const onRotationChange = vi.fn();
+      const { rerender } = render(
+        <PDFViewer ref={ref} src="/test.pdf" rotation={0} onRotationChange={onRotationChange} />
+      );
+
+      await waitFor(() => {
+        expect(ref.current).not.toBeNull();
+      });
+
+      act(() => ref.current?.rotate(90));
+      expect(onRotationChange).toHaveBeenCalledWith(90);
+
+      rerender(
+        <PDFViewer ref={ref} src="/test.pdf" rotation={90} onRotationChange={onRotationChange} />
+      );
+      expect(onRotationChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scroll modes', () => {
+    it('shows one page at a time in page mode', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const { container } = render(<PDFViewer ref={ref} src="/test.pdf" scrollMode="page" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(1);
+      });
+
+      act(() => ref.current?.nextPage());
+
+      const pages = container.querySelectorAll('[data-page-number]');
+      expect(pages).toHaveLength(1);
+      expect(pages[0]).toHaveAttribute('data-page-number', '2');
+    });
+
+    it('switches scroll mode through the ref API', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const { container } = render(<PDFViewer ref={ref} src="/test.pdf" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+      });
+
+      act(() => ref.current?.setScrollMode('page'));
+
+      expect(ref.current?.getScrollMode()).toBe('page');
+      expect(container.querySelectorAll('[data-page-number]')).toHaveLength(1);
+    });
+
+    it('lays out facing pages in spreads', async () => {
+      const { container } = render(<PDFViewer src="/test.pdf" spreadMode="even" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+      });
+
+      const spreads = new Map<Element | null, string[]>();
+      container.querySelectorAll('[data-page-number]').forEach((page) => {
+        const pageNumbers = spreads.get(page.parentElement) ?? [];
+        pageNumbers.push(page.getAttribute('data-page-number') ?? '');
+        spreads.set(page.parentElement, pageNumbers);
+      });
+      expect(Array.from(spreads.values())).toEqual([['1'], ['2', '3'], ['4', '5']]);
+    });
+
+    it('pages through whole spreads and reports the leading page', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const onPageChange = vi.fn();
+      const { container } = render(
+        <PDFViewer
+          ref={ref}
+          src="/test.pdf"
+          scrollMode="page"
+          spreadMode="odd"
+          onPageChange={onPageChange}
+        />
+      );
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(2);
+      });
+
+      act(() => ref.current?.nextPage());
+
+      expect(onPageChange).toHaveBeenLastCalledWith(3);
+      const pages = Array.from(container.querySelectorAll('[data-page-number]'), (page) =>
+        page.getAttribute('data-page-number')
+      );
+      expect(pages).toEqual(['3', '4']);
+    });
+
+    it('navigates with left and right arrows outside vertical mode', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const { container } = render(<PDFViewer ref={ref} src="/test.pdf" scrollMode="page" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(1);
+      });
+
+      const viewer = screen.getByRole('document');
+      viewer.focus();
+      act(() => {
+        viewer.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true }));
+      });
+
+      expect(ref.current?.getCurrentPage()).toBe(2);
+    });
+  });
+
+  describe('page rotation', () => {
+    const getPageElement = (container: HTMLElement, pageNumber: number) =>
+      container.querySelector<HTMLElement>(`[data-page-number="${pageNumber}"]`);
+
+    it('lays out rotated pages with swapped dimensions', async () => {
+      const { container } = render(
+        <PDFViewer src="/test.pdf" defaultScale={1} pageRotations={{ 2: 90 }} />
+      );
+
+      await waitFor(() => {
+        expect(getPageElement(container, 2)?.style.width).toBe('792px');
+      });
+      expect(getPageElement(container, 1)?.style.width).toBe('612px');
+    });
+
+    it('rotates a single page through the ref API', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const onPageRotationChange = vi.fn();
+      const { container } = render(
+        <PDFViewer
+          ref={ref}
+          src="/test.pdf"
+          defaultScale={1}
+          onPageRotationChange={onPageRotationChange}
+        />
+      );
+
+      await waitFor(() => {
+        expect(getPageElement(container, 3)?.style.width).toBe('612px');
+      });
+
+      act(() => ref.current?.rotatePage(3, -90));
+
+      expect(onPageRotationChange).toHaveBeenCalledWith(3, 270);
+      expect(getPageElement(container, 3)?.style.width).toBe('792px');
+      expect(getPageElement(container, 2)?.style.width).toBe('612px');
+    });
   });
 
   describe('ref API', () => {
@@ -205,6 +608,91 @@ describe('PDFViewer', () => {
     });
   });
 
+  describe('swipe navigation', () => {
+    function swipe(element: Element, fromX: number, toX: number) {
+      element.dispatchEvent(
+        new TouchEvent('touchstart', { touches: [{ clientX: fromX, clientY: 100 } as Touch] })
+      );
+      element.dispatchEvent(
+        new TouchEvent('touchend', { changedTouches: [{ clientX: toX, clientY: 100 } as Touch] })
+      );
+    }
+
+    it('changes pages with swipes in page mode', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const { container } = render(<PDFViewer ref={ref} src="/test.pdf" scrollMode="page" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(1);
+      });
+
+      const viewer = screen.getByRole('document');
+      act(() => swipe(viewer, 300, 100));
+      act(() => swipe(viewer, 300, 100));
+      expect(ref.current?.getCurrentPage()).toBe(3);
+
+      act(() => swipe(viewer, 100, 300));
+      expect(ref.current?.getCurrentPage()).toBe(2);
+    });
+
+    it('leaves swipes alone in continuous scroll modes and when disabled', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const { container, rerender } = render(<PDFViewer ref={ref} src="/test.pdf" />);
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+      });
+
+      act(() => swipe(screen.getByRole('document'), 300, 100));
+      expect(ref.current?.getCurrentPage()).toBe(1);
+
+      rerender(<PDFViewer ref={ref} src="/test.pdf" scrollMode="page" enableSwipe={false} />);
+      act(() => swipe(screen.getByRole('document'), 300, 100));
+      expect(ref.current?.getCurrentPage()).toBe(1);
+    });
+  });
+
+  describe('presentation mode', () => {
+    it('presents one page at a time and advances with Space and clicks', async () => {
+      const ref = createRef<PDFViewerRef>();
+      const onPresentationModeChange = vi.fn();
+      const { container } = render(
+        <PDFViewer
+          ref={ref}
+          src="/test.pdf"
+          onPresentationModeChange={onPresentationModeChange}
+        />
+      );
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+      });
+
+      act(() => ref.current?.enterPresentationMode());
+
+      expect(ref.current?.isPresentationMode()).toBe(true);
+      expect(onPresentationModeChange).toHaveBeenCalledWith(true);
+      expect(container.querySelectorAll('[data-page-number]')).toHaveLength(1);
+
+      const viewer = screen.getByRole('document');
+      act(() => {
+        viewer.dispatchEvent(new KeyboardEvent('keydown', { key: ' ', cancelable: true }));
+      });
+      expect(ref.current?.getCurrentPage()).toBe(2);
+
+      act(() => {
+        viewer.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      });
+      expect(ref.current?.getCurrentPage()).toBe(3);
+
+      act(() => ref.current?.exitPresentationMode());
+
+      expect(ref.current?.isPresentationMode()).toBe(false);
+      expect(onPresentationModeChange).toHaveBeenLastCalledWith(false);
+      expect(container.querySelectorAll('[data-page-number]')).toHaveLength(5);
+    });
+  });
+
   describe('error handling', () => {
     it('renders custom error component as ReactNode', () => {
       render(
@@ -222,6 +710,56 @@ describe('PDFViewer', () => {
       render(<PDFViewer src="/test.pdf" error={errorFn} />);
       expect(screen.getByRole('document')).toBeInTheDocument();
     });
+
+    it('explains load failures by error code', async () => {
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce({
+        promise: Promise.reject(
+          Object.assign(new Error('Missing PDF "/missing.pdf".'), { name: 'MissingPDFException' })
+        ),
+        destroy: vi.fn(() => Promise.resolve()),
+      } as never);
+      const onLoadError = vi.fn();
+      render(<PDFViewer src="/missing.pdf" onLoadError={onLoadError} />);
+
+      expect(await screen.findByText('The PDF could not be found.')).toBeInTheDocument();
+      expect(onLoadError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'PDFViewerError', code: 'HTTP_STATUS', status: 404 })
+      );
+    });
+
+    it('loads again from the "Try again" button', async () => {
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce({
+        promise: Promise.reject(new Error('Failed to fetch')),
+        destroy: vi.fn(() => Promise.resolve()),
+      } as never);
+      render(<PDFViewer src="/offline.pdf" />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Try again' }));
+
+      await waitFor(() => {
+        expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      });
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes a retry function to the error render prop', async () => {
+      vi.mocked(pdfjs.getDocument).mockReturnValueOnce({
+        promise: Promise.reject(new Error('Failed to fetch')),
+        destroy: vi.fn(() => Promise.resolve()),
+      } as never);
+      render(
+        <PDFViewer
+          src="/offline.pdf"
+          error={(err, retry) => <button onClick={retry}>Reload {err.code}</button>}
+        />
+      );
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Reload NETWORK' }));
+
+      await waitFor(() => {
+        expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+      });
+    });
   });
 
   describe('callbacks', () => {
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createBitmapCache } from '../utils/bitmapCache';
+
+function createBitmap(width: number, height: number) {
+  return { width, height, close: vi.fn() } as unknown as ImageBitmap;
+}
+
+function createCanvas(width = 100, height = 100): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createBitmapCache', () => {
+  const createImageBitmapMock = vi.fn(
+    (_canvas: HTMLCanvasElement, options: ImageBitmapOptions) =>
+      Promise.resolve(createBitmap(options.resizeWidth ?? 0, options.resizeHeight ?? 0))
+  );
+
+  beforeEach(() => {
+    createImageBitmapMock.mockClear();
+    vi.stubGlobal('createImageBitmap', createImageBitmapMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores a snapshot of a rendered canvas', async () => {
+    const cache = createBitmapCache();
+    cache.store(1, createCanvas(), 90);
+    await flush();
+
+    expect(cache.get(1)).toMatchObject({ rotation: 90 });
+    expect(cache.get(2)).toBeUndefined();
+  });
+
+  it('downscales large canvases', async () => {
+    const cache = createBitmapCache();
+    cache.store(1, createCanvas(4000, 4000), 0);
+    await flush();
+
+    const { bitmap } = cache.get(1)!;
+    expect(bitmap.width * bitmap.height).toBeLessThanOrEqual(512 * 512);
+  });
+
+  it('evicts and closes the least recently used snapshot', async () => {
+    const cache = createBitmapCache(2);
+    cache.store(1, createCanvas(), 0);
+    cache.store(2, createCanvas(), 0);
+    await flush();
+
+    const first = cache.get(1)!;
+    cache.store(3, createCanvas(), 0);
+    await flush();
+
+    expect(cache.get(1)).toBe(first);
+    expect(cache.get(2)).toBeUndefined();
+    expect(cache.get(3)).toBeDefined();
+  });
+
+  it('drops snapshots that finish after the cache was cleared', async () => {
+    const cache = createBitmapCache();
+    cache.store(1, createCanvas(), 0);
+    cache.clear();
+    await flush();
+
+    expect(cache.get(1)).toBeUndefined();
+  });
+
+  it('ignores empty canvases', () => {
+    const cache = createBitmapCache();
+    cache.store(1, createCanvas(0, 0), 0);
+
+    expect(createImageBitmapMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,349 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PDFDocumentLoadingTask, PDFDocumentProxy } from 'pdfjs-dist';
+import type { LoadProgress } from '../PDFViewer.types';
+import {
+  createDocumentCache,
+  getDocumentCacheKey,
+  type DocumentLoad,
+  type DocumentLoadCallbacks,
+} from '../utils/documentCache';
+
+function createLoad(fingerprint: string, fail = false) {
+  const document = { destroy: vi.fn(() => Promise.resolve()) };
+  const task = { destroy: vi.fn(() => Promise.resolve()) };
+  const result = {
+    document: document as unknown as PDFDocumentProxy,
+    info: { numPages: 1, fingerprints: [fingerprint], metadata: {} },
+  };
+  const load: DocumentLoad = {
+    task: task as unknown as PDFDocumentLoadingTask,
+    promise: fail ? Promise.reject(new Error('Load failed')) : Promise.resolve(result),
+  };
+  return { load, document, task };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createDocumentCache', () => {
+  it('shares one load between handles with the same key', async () => {
+    const cache = createDocumentCache();
+    const { load } = createLoad('a');
+    const loader = vi.fn(() => load);
+
+    const first = cache.acquire('a', loader);
+    const second = cache.acquire('a', loader);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect((await first.promise).document).toBe((await second.promise).document);
+  });
+
+  it('destroys a document once its last handle is released', async () => {
+    const cache = createDocumentCache();
+    const { load, document } = createLoad('a');
+
+    const first = cache.acquire('a', () => load);
+    const second = cache.acquire('a', () => load);
+    await first.promise;
+
+    first.release();
+    first.release();
+    await flush();
+    expect(document.destroy).not.toHaveBeenCalled();
+
+    second.release();
+    await flush();
+    expect(document.destroy).toHaveBeenCalled();
+  });
+
+  it('reuses a document released and acquired again in the same task', async () => {
+    const cache = createDocumentCache();
+    const { load, document } = createLoad('a');
+    const loader = vi.fn(() => load);
+
+    const handle = cache.acquire('a', loader);
+    await handle.promise;
+    handle.release();
+    cache.acquire('a', loader);
+    await flush();
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(document.destroy).not.toHaveBeenCalled();
+  });
+
+  it('keeps unused documents up to the limit, least recently used first out', async () => {
+    const cache = createDocumentCache(2);
+    const loads = ['a', 'b', 'c'].map((key) => createLoad(key));
+
+    for (const [index, key] of ['a', 'b'].entries()) {
+      const handle = cache.acquire(key, () => loads[index].load);
+      await handle.promise;
+      handle.release();
+    }
+
+    // Using 'a' again makes 'b' the least recently used
+    cache.acquire('a', () => createLoad('a').load).release();
+    const handle = cache.acquire('c', () => loads[2].load);
+    await handle.promise;
+    await flush();
+
+    expect(loads[0].document.destroy).not.toHaveBeenCalled();
+    expect(loads[1].document.destroy).toHaveBeenCalled();
+    expect(loads[2].document.destroy).not.toHaveBeenCalled();
+  });
+
+  it('never evicts documents in use', async () => {
+    const cache = createDocumentCache(1);
+    const first = createLoad('a');
+    const second = createLoad('b');
+
+    await cache.acquire('a', () => first.load).promise;
+    await cache.acquire('b', () => second.load).promise;
+    await flush();
+
+    expect(first.document.destroy).not.toHaveBeenCalled();
+    expect(second.document.destroy).not.toHaveBeenCalled();
+  });
+
+  it('aborts a load that is no longer needed', async () => {
+    const cache = createDocumentCache();
+    const { load, task } = createLoad('a');
+    load.promise = new Promise(() => {});
+
+    cache.acquire('a', () => load).release();
+    await flush();
+
+    expect(task.destroy).toHaveBeenCalled();
+  });
+
+  it('does not cache failed loads', async () => {
+    const cache = createDocumentCache(5);
+    const loader = vi.fn(() => createLoad('a', true).load);
+
+    await expect(cache.acquire('a', loader).promise).rejects.toThrow('Load failed');
+    await expect(cache.acquire('a', loader).promise).rejects.toThrow('Load failed');
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares the document of another key with the same fingerprint', async () => {
+    const cache = createDocumentCache();
+    const first = createLoad('same');
+    const second = createLoad('same');
+
+    const fromUrl = cache.acquire('url', () => first.load);
+    const fromBytes = cache.acquire('bytes', () => second.load);
+
+    expect((await fromBytes.promise).document).toBe((await fromUrl.promise).document);
+    expect(second.document.destroy).toHaveBeenCalled();
+
+    fromUrl.release();
+    await flush();
+    expect(first.document.destroy).not.toHaveBeenCalled();
+
+    fromBytes.release();
+    await flush();
+    expect(first.document.destroy).toHaveBeenCalled();
+  });
+
+  it('shares a fingerprint only between keys loaded with the same options', async () => {
+    const cache = createDocumentCache();
+    const unlocked = createLoad('same');
+    const other = createLoad('same');
+
+    const withPassword = cache.acquire(
+      getDocumentCacheKey('/a.pdf', { password: 'secret' }),
+      () => unlocked.load
+    );
+    const withoutPassword = cache.acquire(getDocumentCacheKey(new Uint8Array(4)), () => other.load);
+
+    const unlockedDocument = (await withPassword.promise).document;
+    expect((await withoutPassword.promise).document).not.toBe(unlockedDocument);
+    expect(other.document.destroy).not.toHaveBeenCalled();
+  });
+
+  it('stops serving a document that fails after loading', async () => {
+    const cache = createDocumentCache(5);
+    const first = createLoad('a');
+    let fail: (error: unknown) => void = () => {};
+    first.load.failed = new Promise<never>((_, reject) => {
+      fail = reject;
+    });
+    const second = createLoad('a');
+    const loader = vi.fn().mockReturnValueOnce(first.load).mockReturnValueOnce(second.load);
+
+    const handle = cache.acquire('a', loader);
+    const onFailure = vi.fn();
+    handle.onFailure(onFailure);
+    await handle.promise;
+
+    fail(new Error('Range request failed'));
+    await flush();
+    expect(onFailure).toHaveBeenCalledWith(new Error('Range request failed'));
+
+    const again = cache.acquire('a', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect((await again.promise).document).toBe(second.document);
+  });
+
+  it('loads again after a key is invalidated', async () => {
+    const cache = createDocumentCache(5);
+    const first = createLoad('a');
+    const loader = vi.fn(() => first.load);
+
+    const handle = cache.acquire('a', loader);
+    await handle.promise;
+    cache.invalidate('a');
+    expect(first.document.destroy).not.toHaveBeenCalled();
+
+    cache.acquire('a', loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    handle.release();
+    expect(first.document.destroy).toHaveBeenCalled();
+  });
+
+  it('holds preloaded documents until the next acquire', async () => {
+    const cache = createDocumentCache();
+    const { load, document } = createLoad('a');
+    const loader = vi.fn(() => load);
+
+    const preload = cache.preload('a', loader);
+    await preload.promise;
+    await flush();
+    expect(document.destroy).not.toHaveBeenCalled();
+
+    const handle = cache.acquire('a', loader);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    handle.release();
+    await flush();
+    expect(document.destroy).toHaveBeenCalled();
+  });
+
+  it('reports the progress of a shared load to every handle', () => {
+    const cache = createDocumentCache();
+    const { load } = createLoad('a');
+    let reportProgress: (progress: LoadProgress) => void = () => {};
+    const loader = ({ onProgress }: DocumentLoadCallbacks) => {
+      reportProgress = onProgress;
+      return load;
+    };
+    const first = vi.fn();
+    const second = vi.fn();
+
+    cache.acquire('a', loader).onProgress(first);
+    reportProgress({ loaded: 10, total: 100 });
+
+    // Late listeners start with the latest progress
+    const handle = cache.acquire('a', loader);
+    handle.onProgress(second);
+    expect(second).toHaveBeenCalledWith({ loaded: 10, total: 100 });
+
+    handle.release();
+    reportProgress({ loaded: 50, total: 100 });
+
+    expect(first).toHaveBeenLastCalledWith({ loaded: 50, total: 100 });
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks the first handle with a password handler for the password', async () => {
+    const cache = createDocumentCache();
+    const { load } = createLoad('a');
+    let requestPassword: DocumentLoadCallbacks['onPassword'] = () => Promise.reject();
+    const loader = ({ onPassword }: DocumentLoadCallbacks) => {
+      requestPassword = onPassword;
+      return load;
+    };
+
+    const first = cache.acquire('a', loader);
+    const second = cache.acquire('a', loader);
+    const firstHandler = vi.fn(() => Promise.resolve('first'));
+    first.onPassword(firstHandler);
+    second.onPassword(() => Promise.resolve('second'));
+
+    await expect(requestPassword('NEED_PASSWORD')).resolves.toBe('first');
+    expect(firstHandler).toHaveBeenCalledWith('NEED_PASSWORD');
+
+    first.release();
+    await expect(requestPassword('INCORRECT_PASSWORD')).resolves.toBe('second');
+
+    second.release();
+    await expect(requestPassword('INCORRECT_PASSWORD')).rejects.toThrow('No password given.');
+  });
+
+  it('destroys unused documents on clear', async () => {
+    const cache = createDocumentCache(5);
+    const { load, document } = createLoad('a');
+
+    const handle = cache.acquire('a', () => load);
+    await handle.promise;
+    handle.release();
+    cache.clear();
+
+    expect(document.destroy).toHaveBeenCalled();
+  });
+});
+
+describe('getDocumentCacheKey', () => {
+  it('resolves relative URLs', () => {
+    expect(getDocumentCacheKey('/docs/a.pdf')).toBe(
+      getDocumentCacheKey(`${window.location.origin}/docs/a.pdf`)
+    );
+    expect(getDocumentCacheKey('/docs/a.pdf')).not.toBe(getDocumentCacheKey('/docs/b.pdf'));
+  });
+
+  it('keys binary data by its buffer', () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+
+    expect(getDocumentCacheKey(bytes)).toBe(getDocumentCacheKey(bytes.buffer));
+    expect(getDocumentCacheKey(bytes)).toBe(getDocumentCacheKey(new Uint8Array(bytes.buffer)));
+    expect(getDocumentCacheKey(bytes)).not.toBe(getDocumentCacheKey(bytes.subarray(1)));
+    expect(getDocumentCacheKey(bytes)).not.toBe(getDocumentCacheKey(new Uint8Array([1, 2, 3, 4])));
+  });
+
+  it('keys base64 data by the string itself', () => {
+    const data = `data:application/pdf;base64,${'A'.repeat(1000)}`;
+
+    expect(getDocumentCacheKey(data)).toBe(getDocumentCacheKey(`${data}`));
+    expect(getDocumentCacheKey(data)).not.toBe(getDocumentCacheKey(`${data.slice(0, -1)}B`));
+  });
+
+  it('keys range sources by identity', () => {
+    const getRange = () => Promise.resolve(new Uint8Array());
+    const source = { length: 10, getRange };
+
+    expect(getDocumentCacheKey(source)).toBe(getDocumentCacheKey(source));
+    expect(getDocumentCacheKey(source)).not.toBe(getDocumentCacheKey({ length: 10, getRange }));
+  });
+
+  it('keys Blobs, Responses and factories by identity', () => {
+    const blob = new Blob([new Uint8Array(4)]);
+    const factory = () => Promise.resolve(blob);
+
+    expect(getDocumentCacheKey(blob)).toBe(getDocumentCacheKey(blob));
+    expect(getDocumentCacheKey(blob)).not.toBe(getDocumentCacheKey(new Blob([new Uint8Array(4)])));
+    expect(getDocumentCacheKey(factory)).toBe(getDocumentCacheKey(factory));
+    expect(getDocumentCacheKey(factory)).not.toBe(getDocumentCacheKey(() => Promise.resolve(blob)));
+    expect(getDocumentCacheKey(new Response(null))).toMatch(/response:\d+$/);
+  });
+
+  it('includes options that change what is loaded', () => {
+    expect(getDocumentCacheKey('/a.pdf', { httpHeaders: { Authorization: 'Bearer 1' } })).not.toBe(
+      getDocumentCacheKey('/a.pdf', { httpHeaders: { Authorization: 'Bearer 2' } })
+    );
+    expect(getDocumentCacheKey('/a.pdf', { withCredentials: true })).not.toBe(
+      getDocumentCacheKey('/a.pdf')
+    );
+    expect(getDocumentCacheKey('/a.pdf', { password: 'secret' })).not.toBe(
+      getDocumentCacheKey('/a.pdf')
+    );
+
+    const requestInterceptor = () => ({ headers: { Authorization: 'Bearer 1' } });
+    expect(getDocumentCacheKey('/a.pdf', { requestInterceptor })).toBe(
+      getDocumentCacheKey('/a.pdf', { requestInterceptor })
+    );
+    expect(getDocumentCacheKey('/a.pdf', { requestInterceptor })).not.toBe(
+      getDocumentCacheKey('/a.pdf', { requestInterceptor: () => ({}) })
+    );
+  });
+});
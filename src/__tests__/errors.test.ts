@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PDFViewerError, toPDFViewerError } from '../utils/errors';
+
+function pdfjsError(name: string, message: string, details: object = {}) {
+  return Object.assign(new Error(message), { name, ...details });
+}
+
+describe('toPDFViewerError', () => {
+  it('classifies PDF.js exceptions', () => {
+    expect(toPDFViewerError(pdfjsError('InvalidPDFException', 'Invalid PDF structure.')).code).toBe(
+      'INVALID_PDF'
+    );
+    expect(toPDFViewerError(pdfjsError('PasswordException', 'No password given', { code: 1 })).code).toBe(
+      'PASSWORD_REQUIRED'
+    );
+    expect(toPDFViewerError(pdfjsError('PasswordException', 'Incorrect Password', { code: 2 })).code).toBe(
+      'PASSWORD_INCORRECT'
+    );
+  });
+
+  it('keeps the HTTP status of failed requests', () => {
+    const missing = toPDFViewerError(pdfjsError('MissingPDFException', 'Missing PDF "/a.pdf".'));
+    expect(missing.code).toBe('HTTP_STATUS');
+    expect(missing.status).toBe(404);
+
+    const forbidden = toPDFViewerError(
+      pdfjsError('UnexpectedResponseException', 'Unexpected server response (403)', { status: 403 })
+    );
+    expect(forbidden.code).toBe('HTTP_STATUS');
+    expect(forbidden.status).toBe(403);
+
+    const unreachable = toPDFViewerError(
+      pdfjsError('UnexpectedResponseException', 'Unexpected server response (0)', { status: 0 })
+    );
+    expect(unreachable.code).toBe('NETWORK');
+    expect(unreachable.status).toBeUndefined();
+  });
+
+  it('recognizes network and worker failures by message', () => {
+    expect(toPDFViewerError(pdfjsError('UnknownErrorException', 'Failed to fetch')).code).toBe('NETWORK');
+    expect(toPDFViewerError(new Error('Setting up fake worker failed')).code).toBe('WORKER_FAILED');
+  });
+
+  it('explains a worker from another pdfjs-dist version', () => {
+    const error = toPDFViewerError(
+      pdfjsError(
+        'UnknownErrorException',
+        'The API version "4.10.38" does not match the Worker version "4.0.379".'
+      )
+    );
+
+    expect(error.code).toBe('WORKER_FAILED');
+    expect(error.message).toContain(
+      'The PDF.js worker is version 4.0.379, but pdfjs-dist is version 4.10.38.'
+    );
+  });
+
+  it('keeps the original error as the cause', () => {
+    const cause = new Error('Something broke');
+    const error = toPDFViewerError(cause, 'RENDER_FAILED', { pageNumber: 3 });
+
+    expect(error).toBeInstanceOf(PDFViewerError);
+    expect(error.code).toBe('RENDER_FAILED');
+    expect(error.pageNumber).toBe(3);
+    expect(error.cause).toBe(cause);
+    expect(error.message).toBe('Something broke');
+  });
+
+  it('returns viewer errors unchanged', () => {
+    const error = new PDFViewerError('NETWORK', 'Offline');
+    expect(toPDFViewerError(error, 'RENDER_FAILED')).toBe(error);
+  });
+});
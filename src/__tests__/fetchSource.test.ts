@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as pdfjs from 'pdfjs-dist';
+import { openFetchSource } from '../utils/fetchSource';
+import { loadDocument } from '../utils/loadDocument';
+import type { RequestInterceptor } from '../PDFViewer.types';
+
+const FILE_SIZE = 100000;
+
+function rangeResponse(begin: number, end: number) {
+  return new Response(new Uint8Array(end - begin), {
+    status: 206,
+    headers: { 'Content-Range': `bytes ${begin}-${end - 1}/${FILE_SIZE}` },
+  });
+}
+
+describe('openFetchSource', () => {
+  const fetchMock = vi.fn((_input: RequestInfo | URL, _init?: RequestInit) => Promise.resolve(new Response()));
+  let token = 'first';
+  const requestInterceptor = vi.fn<Parameters<RequestInterceptor>, RequestInit>((request) => {
+    if (request.retry) token = 'refreshed';
+    return { headers: { Authorization: `Bearer ${token}` } };
+  });
+
+  const getHeader = (call: number, name: string) =>
+    (fetchMock.mock.calls[call][1]?.headers as Record<string, string>)[name];
+
+  beforeEach(() => {
+    token = 'first';
+    requestInterceptor.mockClear();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serves documents in ranges when the server supports them', async () => {
+    fetchMock.mockImplementation(async (_, init) => {
+      const { Range } = init?.headers as Record<string, string>;
+      const [, begin, end] = Range.match(/bytes=(\d+)-(\d+)/)!;
+      return rangeResponse(Number(begin), Math.min(FILE_SIZE, Number(end) + 1));
+    });
+
+    const source = await openFetchSource('/doc.pdf', { requestInterceptor });
+    if (!('range' in source)) throw new Error('Expected a range transport');
+    expect(source.range.length).toBe(FILE_SIZE);
+    expect(source.range.initialData).toHaveLength(65536);
+
+    source.range.requestDataRange(65536, FILE_SIZE);
+    await vi.waitFor(() => {
+      expect(source.range.onDataRange).toHaveBeenCalledWith(65536, expect.any(Uint8Array));
+    });
+
+    expect(requestInterceptor).toHaveBeenLastCalledWith({
+      url: '/doc.pdf',
+      range: { begin: 65536, end: FILE_SIZE },
+      retry: false,
+    });
+    expect(getHeader(1, 'Range')).toBe(`bytes=65536-${FILE_SIZE - 1}`);
+    expect(getHeader(1, 'Authorization')).toBe('Bearer first');
+  });
+
+  it('reports the bytes received as ranges arrive', async () => {
+    fetchMock.mockImplementation(async (_, init) => {
+      const { Range } = init?.headers as Record<string, string>;
+      const [, begin, end] = Range.match(/bytes=(\d+)-(\d+)/)!;
+      return rangeResponse(Number(begin), Math.min(FILE_SIZE, Number(end) + 1));
+    });
+    const onProgress = vi.fn();
+
+    const source = await openFetchSource('/doc.pdf', { requestInterceptor, onProgress });
+    if (!('range' in source)) throw new Error('Expected a range transport');
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 65536, total: FILE_SIZE });
+
+    source.range.requestDataRange(65536, FILE_SIZE);
+    await vi.waitFor(() => {
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: FILE_SIZE, total: FILE_SIZE });
+    });
+  });
+
+  it('reads the whole file when ranges are not supported', async () => {
+    const onProgress = vi.fn();
+    fetchMock.mockResolvedValue(
+      new Response(new Uint8Array(1000), { headers: { 'Content-Length': '1000' } })
+    );
+
+    const source = await openFetchSource('/doc.pdf', { requestInterceptor, onProgress });
+
+    expect('data' in source && source.data).toHaveLength(1000);
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 1000, total: 1000 });
+  });
+
+  it('retries once after a 401 with refreshed credentials', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 401 }))
+      .mockResolvedValueOnce(new Response(new Uint8Array(10)));
+
+    await openFetchSource('/doc.pdf', { requestInterceptor });
+
+    expect(requestInterceptor).toHaveBeenLastCalledWith(expect.objectContaining({ retry: true }));
+    expect(getHeader(1, 'Authorization')).toBe('Bearer refreshed');
+  });
+
+  it('fails with the HTTP status', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 401 }));
+
+    await expect(openFetchSource('/doc.pdf', { requestInterceptor })).rejects.toMatchObject({
+      code: 'HTTP_STATUS',
+      status: 401,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('hands the fetched bytes to PDF.js', async () => {
+    fetchMock.mockResolvedValue(new Response(new Uint8Array(10)));
+
+    const { promise } = loadDocument('/doc.pdf', { requestInterceptor });
+    await promise;
+
+    expect(pdfjs.getDocument).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: undefined, data: expect.any(Uint8Array) })
+    );
+  });
+});
@@ -1,6 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { createElement, type ReactNode } from 'react';
+import * as pdfjs from 'pdfjs-dist';
 import { usePDFDocument } from '../hooks/usePDFDocument';
+import { useGestureZoom } from '../hooks/useGestureZoom';
+import { usePresentationMode } from '../hooks/usePresentationMode';
+import { useSwipeNavigation } from '../hooks/useSwipeNavigation';
+import { usePageTracking } from '../hooks/usePageTracking';
+import { PDFDocumentCacheProvider } from '../context/DocumentCacheContext';
 
 describe('usePDFDocument', () => {
   beforeEach(() => {
@@ -85,6 +92,210 @@ describe('usePDFDocument', () => {
     });
   });
 
+  describe('load progress', () => {
+    it('reports download progress', async () => {
+      const onLoadProgress = vi.fn();
+      const { result } = renderHook(() => usePDFDocument('/large.pdf', { onLoadProgress }));
+
+      const task = vi.mocked(pdfjs.getDocument).mock.results[0].value;
+      act(() => task.onProgress({ loaded: 512, total: 2048 }));
+
+      expect(result.current.progress).toEqual({ loaded: 512, total: 2048 });
+      expect(onLoadProgress).toHaveBeenCalledWith({ loaded: 512, total: 2048 });
+    });
+  });
+
+  describe('failures after loading', () => {
+    it('moves to the error state when a range fails once the document is open', async () => {
+      const getRange = vi.fn(() => Promise.reject(new Error('Failed to fetch')));
+      const source = { length: 4096, getRange };
+      const onLoadError = vi.fn();
+      const { result } = renderHook(() => usePDFDocument(source, { onLoadError }));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+
+      const params = vi.mocked(pdfjs.getDocument).mock.lastCall?.[0] as {
+        range: pdfjs.PDFDataRangeTransport;
+      };
+      act(() => params.range.requestDataRange(1024, 2048));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('error');
+      });
+      expect(result.current.document).toBeNull();
+      expect(onLoadError).toHaveBeenCalledWith(expect.objectContaining({ code: 'NETWORK' }));
+
+      getRange.mockResolvedValue(new Uint8Array(1024) as never);
+      act(() => result.current.reload());
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retry', () => {
+    // Rejected lazily, so a queued failure is not reported as unhandled
+    const failWith = (error: Error) => {
+      vi.mocked(pdfjs.getDocument).mockImplementationOnce(() => ({
+        promise: Promise.reject(error),
+        destroy: vi.fn(() => Promise.resolve()),
+      }) as never);
+    };
+
+    it('retries transient failures before reporting an error', async () => {
+      failWith(new Error('Failed to fetch'));
+      const onLoadStart = vi.fn();
+      const onLoadError = vi.fn();
+      const { result } = renderHook(() =>
+        usePDFDocument('/flaky.pdf', { retry: { delay: 10 }, onLoadStart, onLoadError })
+      );
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+      expect(onLoadStart).toHaveBeenCalledTimes(1);
+      expect(onLoadError).not.toHaveBeenCalled();
+    });
+
+    it('gives up after the last attempt', async () => {
+      failWith(new Error('Failed to fetch'));
+      failWith(new Error('Failed to fetch'));
+      const onLoadError = vi.fn();
+      const { result } = renderHook(() =>
+        usePDFDocument('/offline.pdf', { retry: { attempts: 1, delay: 10 }, onLoadError })
+      );
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('error');
+      });
+
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+      expect(onLoadError).toHaveBeenCalledWith(expect.objectContaining({ code: 'NETWORK' }));
+    });
+
+    it('does not retry errors outside the policy', async () => {
+      failWith(Object.assign(new Error('Invalid PDF structure.'), { name: 'InvalidPDFException' }));
+      const { result } = renderHook(() => usePDFDocument('/broken.pdf', { retry: { delay: 10 } }));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('error');
+      });
+
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('passwords', () => {
+    it('asks onPassword and retries with the answer', async () => {
+      const onPassword = vi.fn(() => Promise.resolve('secret'));
+      const onPasswordRequired = vi.fn();
+      renderHook(() => usePDFDocument('/locked.pdf', { onPassword, onPasswordRequired }));
+
+      const task = vi.mocked(pdfjs.getDocument).mock.results[0].value;
+      const updatePassword = vi.fn();
+      task.onPassword(updatePassword, pdfjs.PasswordResponses.NEED_PASSWORD);
+      await waitFor(() => {
+        expect(updatePassword).toHaveBeenCalledWith('secret');
+      });
+
+      task.onPassword(updatePassword, pdfjs.PasswordResponses.INCORRECT_PASSWORD);
+      expect(onPassword).toHaveBeenLastCalledWith('INCORRECT_PASSWORD');
+      expect(onPassword).toHaveBeenCalledTimes(2);
+      expect(onPasswordRequired).toHaveBeenCalledTimes(1);
+    });
+
+    it('exposes password requests when prompting', async () => {
+      const { result } = renderHook(() =>
+        usePDFDocument('/locked.pdf', { promptForPassword: true })
+      );
+
+      const task = vi.mocked(pdfjs.getDocument).mock.results[0].value;
+      const updatePassword = vi.fn();
+      act(() => task.onPassword(updatePassword, pdfjs.PasswordResponses.INCORRECT_PASSWORD));
+      expect(result.current.passwordRequest?.reason).toBe('INCORRECT_PASSWORD');
+
+      act(() => result.current.passwordRequest?.submit('secret'));
+      expect(result.current.passwordRequest).toBeNull();
+      await waitFor(() => {
+        expect(updatePassword).toHaveBeenCalledWith('secret');
+      });
+
+      act(() => task.onPassword(updatePassword, pdfjs.PasswordResponses.NEED_PASSWORD));
+      act(() => result.current.passwordRequest?.cancel());
+      await waitFor(() => {
+        expect(updatePassword).toHaveBeenLastCalledWith(
+          expect.objectContaining({ name: 'PasswordException' })
+        );
+      });
+    });
+  });
+
+  describe('document cache', () => {
+    it('shares a document between instances with the same source', async () => {
+      const first = renderHook(() => usePDFDocument('/shared.pdf'));
+      const second = renderHook(() => usePDFDocument('/shared.pdf'));
+
+      await waitFor(() => {
+        expect(second.result.current.state).toBe('ready');
+      });
+
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(1);
+      expect(second.result.current.document).toBe(first.result.current.document);
+    });
+
+    it('keeps unused documents inside a provider', async () => {
+      const wrapper = ({ children }: { children: ReactNode }) =>
+        createElement(PDFDocumentCacheProvider, { maxDocuments: 2, children });
+
+      const { result, rerender, unmount } = renderHook(({ src }) => usePDFDocument(src), {
+        wrapper,
+        initialProps: { src: '/cached.pdf' },
+      });
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+      const document = result.current.document;
+
+      rerender({ src: '/other.pdf' });
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+
+      rerender({ src: '/cached.pdf' });
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+      expect(result.current.document).toBe(document);
+
+      // Unmounting the provider releases its documents
+      unmount();
+      await waitFor(() => {
+        expect(document?.destroy).toHaveBeenCalled();
+      });
+    });
+
+    it('loads again on reload', async () => {
+      const { result } = renderHook(() => usePDFDocument('/reloaded.pdf'));
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+
+      act(() => result.current.reload());
+      await waitFor(() => {
+        expect(result.current.state).toBe('ready');
+      });
+
+      expect(pdfjs.getDocument).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('options handling', () => {
     it('accepts httpHeaders option', () => {
       const { result } = renderHook(() =>
@@ -164,3 +375,319 @@ describe('usePDFDocument', () => {
     });
   });
 });
+
+describe('useGestureZoom', () => {
+  function setup(enabled = true, scale = 1) {
+    const container = document.createElement('div');
+    container.getBoundingClientRect = () => new DOMRect(10, 20, 400, 300);
+    const containerRef = { current: container };
+    const onZoom = vi.fn();
+
+    renderHook(() => useGestureZoom({ containerRef, enabled, scale, onZoom }));
+
+    return { container, onZoom };
+  }
+
+  it('zooms in on Ctrl+wheel around the pointer', async () => {
+    const { container, onZoom } = setup();
+    const event = new WheelEvent('wheel', {
+      deltaY: -100,
+      ctrlKey: true,
+      clientX: 110,
+      clientY: 70,
+      cancelable: true,
+    });
+
+    container.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    await waitFor(() => {
+      expect(onZoom).toHaveBeenCalledWith(expect.any(Number), { x: 100, y: 50 });
+    });
+    expect(onZoom.mock.calls[0][0]).toBeGreaterThan(1);
+  });
+
+  it('ignores plain wheel scrolling', async () => {
+    const { container, onZoom } = setup();
+    const event = new WheelEvent('wheel', { deltaY: 100, cancelable: true });
+
+    container.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(onZoom).not.toHaveBeenCalled();
+  });
+
+  it('clamps to the maximum scale', async () => {
+    const { container, onZoom } = setup(true, 9.9);
+
+    container.dispatchEvent(
+      new WheelEvent('wheel', { deltaY: -1000, ctrlKey: true, cancelable: true })
+    );
+
+    await waitFor(() => {
+      expect(onZoom).toHaveBeenCalledWith(10, expect.any(Object));
+    });
+  });
+
+  it('zooms with Safari gesture events', async () => {
+    const { container, onZoom } = setup(true, 2);
+
+    container.dispatchEvent(new Event('gesturestart', { cancelable: true }));
+    const change = Object.assign(new Event('gesturechange', { cancelable: true }), {
+      scale: 1.5,
+      clientX: 210,
+      clientY: 170,
+    });
+    container.dispatchEvent(change);
+
+    await waitFor(() => {
+      expect(onZoom).toHaveBeenCalledWith(3, { x: 200, y: 150 });
+    });
+  });
+
+  it('does nothing when disabled', async () => {
+    const { container, onZoom } = setup(false);
+    const event = new WheelEvent('wheel', { deltaY: -100, ctrlKey: true, cancelable: true });
+
+    container.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(onZoom).not.toHaveBeenCalled();
+  });
+});
+
+describe('usePresentationMode', () => {
+  function setup() {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const containerRef = { current: container };
+    const onChange = vi.fn();
+
+    const hook = renderHook(() => usePresentationMode({ containerRef, onChange }));
+
+    return { container, onChange, ...hook };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+    Object.defineProperty(document, 'fullscreenElement', { value: null, configurable: true });
+  });
+
+  it('requests fullscreen and follows fullscreen changes', async () => {
+    const { container, onChange, result } = setup();
+    container.requestFullscreen = vi.fn(() => {
+      Object.defineProperty(document, 'fullscreenElement', { value: container, configurable: true });
+      document.dispatchEvent(new Event('fullscreenchange'));
+      return Promise.resolve();
+    });
+
+    act(() => result.current.enter());
+
+    expect(container.requestFullscreen).toHaveBeenCalled();
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.isFallback).toBe(false);
+    expect(onChange).toHaveBeenLastCalledWith(true);
+
+    // The browser leaves fullscreen on Escape
+    act(() => {
+      Object.defineProperty(document, 'fullscreenElement', { value: null, configurable: true });
+      document.dispatchEvent(new Event('fullscreenchange'));
+    });
+
+    expect(result.current.isActive).toBe(false);
+    expect(onChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('covers the viewport when fullscreen is unavailable', () => {
+    const { container, onChange, result } = setup();
+    Object.defineProperty(container, 'requestFullscreen', { value: undefined });
+
+    act(() => result.current.enter());
+
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.isFallback).toBe(true);
+    expect(onChange).toHaveBeenCalledWith(true);
+
+    act(() => {
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    });
+
+    expect(result.current.isActive).toBe(false);
+  });
+
+  it('hides the cursor while the mouse is idle', () => {
+    vi.useFakeTimers();
+    const { container, result } = setup();
+    Object.defineProperty(container, 'requestFullscreen', { value: undefined });
+
+    act(() => result.current.enter());
+    expect(result.current.cursorHidden).toBe(false);
+
+    act(() => vi.advanceTimersByTime(2000));
+    expect(result.current.cursorHidden).toBe(true);
+
+    act(() => {
+      container.dispatchEvent(new MouseEvent('mousemove'));
+    });
+    expect(result.current.cursorHidden).toBe(false);
+  });
+});
+
+describe('useSwipeNavigation', () => {
+  function touch(
+    container: HTMLElement,
+    type: string,
+    points: Array<{ x: number; y: number }>,
+    time = 0
+  ) {
+    const touches = points.map(({ x, y }) => ({ clientX: x, clientY: y }) as Touch);
+    const event = new TouchEvent(type, {
+      touches: type === 'touchend' ? [] : touches,
+      changedTouches: touches,
+    });
+    Object.defineProperty(event, 'timeStamp', { value: time });
+    container.dispatchEvent(event);
+  }
+
+  function swipe(container: HTMLElement, fromX: number, toX: number, toY = 100, duration = 200) {
+    touch(container, 'touchstart', [{ x: fromX, y: 100 }], 0);
+    touch(container, 'touchmove', [{ x: toX, y: toY }], duration);
+    touch(container, 'touchend', [{ x: toX, y: toY }], duration);
+  }
+
+  function setup(enabled = true) {
+    const container = document.createElement('div');
+    const containerRef = { current: container };
+    const onSwipe = vi.fn();
+    const onSwipeMove = vi.fn();
+
+    renderHook(() => useSwipeNavigation({ containerRef, enabled, onSwipe, onSwipeMove }));
+
+    return { container, onSwipe, onSwipeMove };
+  }
+
+  afterEach(() => {
+    window.getSelection()?.removeAllRanges();
+    document.body.innerHTML = '';
+  });
+
+  it('recognizes horizontal swipes', () => {
+    const { container, onSwipe } = setup();
+
+    swipe(container, 300, 100);
+    swipe(container, 100, 300);
+
+    expect(onSwipe.mock.calls).toEqual([['next'], ['previous']]);
+  });
+
+  it('recognizes short fast flicks but not short slow drags', () => {
+    const { container, onSwipe } = setup();
+
+    swipe(container, 300, 270, 100, 50);
+    expect(onSwipe).toHaveBeenCalledWith('next');
+
+    onSwipe.mockClear();
+    swipe(container, 300, 270, 100, 500);
+    expect(onSwipe).not.toHaveBeenCalled();
+  });
+
+  it('ignores mostly vertical movements', () => {
+    const { container, onSwipe } = setup();
+
+    swipe(container, 300, 200, 400);
+
+    expect(onSwipe).not.toHaveBeenCalled();
+  });
+
+  it('reports the drag offset and resets it after the swipe', () => {
+    const { container, onSwipe, onSwipeMove } = setup();
+    onSwipe.mockImplementation(() => {
+      expect(onSwipeMove).toHaveBeenLastCalledWith(-200);
+    });
+
+    swipe(container, 300, 100);
+
+    expect(onSwipe).toHaveBeenCalled();
+    expect(onSwipeMove).toHaveBeenLastCalledWith(0);
+  });
+
+  it('cancels when a second finger starts a pinch', () => {
+    const { container, onSwipe, onSwipeMove } = setup();
+
+    touch(container, 'touchstart', [{ x: 300, y: 100 }]);
+    touch(container, 'touchmove', [{ x: 250, y: 100 }], 100);
+    touch(container, 'touchmove', [{ x: 200, y: 100 }, { x: 400, y: 100 }], 150);
+    touch(container, 'touchend', [{ x: 100, y: 100 }], 200);
+
+    expect(onSwipe).not.toHaveBeenCalled();
+    expect(onSwipeMove).toHaveBeenLastCalledWith(0);
+  });
+
+  it('leaves drags that select text alone', () => {
+    const { container, onSwipe } = setup();
+    container.textContent = 'Selectable text';
+    document.body.appendChild(container);
+
+    touch(container, 'touchstart', [{ x: 300, y: 100 }]);
+    window.getSelection()?.selectAllChildren(container);
+    touch(container, 'touchend', [{ x: 100, y: 100 }], 200);
+
+    expect(onSwipe).not.toHaveBeenCalled();
+  });
+
+  it('scrolls a wide page to its edge before swiping', () => {
+    const { container, onSwipe } = setup();
+    Object.defineProperty(container, 'scrollWidth', { value: 800 });
+    Object.defineProperty(container, 'clientWidth', { value: 400 });
+    container.scrollLeft = 100;
+
+    swipe(container, 300, 100);
+    swipe(container, 100, 300);
+    expect(onSwipe).not.toHaveBeenCalled();
+
+    container.scrollLeft = 400;
+    swipe(container, 300, 100);
+    expect(onSwipe).toHaveBeenCalledWith('next');
+  });
+
+  it('does nothing when disabled', () => {
+    const { container, onSwipe } = setup(false);
+
+    swipe(container, 300, 100);
+
+    expect(onSwipe).not.toHaveBeenCalled();
+  });
+});
+
+describe('usePageTracking', () => {
+  it('measures only the pages in view', () => {
+    const container = document.createElement('div');
+    Object.defineProperty(container, 'clientHeight', { value: 500 });
+    Object.defineProperty(container, 'clientWidth', { value: 400 });
+    container.getBoundingClientRect = () => new DOMRect(0, 0, 400, 500);
+
+    let measured = 0;
+    for (let index = 0; index < 3000; index++) {
+      const page = document.createElement('div');
+      page.setAttribute('data-page-number', String(index + 1));
+      page.getBoundingClientRect = () => {
+        measured++;
+        return new DOMRect(0, index * 1000 - container.scrollTop, 400, 1000);
+      };
+      container.appendChild(page);
+    }
+    container.scrollTop = 1500 * 1000;
+
+    const onPageChange = vi.fn();
+    renderHook(() =>
+      usePageTracking({ containerRef: { current: container }, totalPages: 3000, onPageChange })
+    );
+
+    expect(onPageChange).toHaveBeenCalledWith(1501);
+    // A binary search over the pages, rather than one read per page
+    expect(measured).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as pdfjs from 'pdfjs-dist';
+import { loadDocument } from '../utils/loadDocument';
+import { getWorker, resetWorker } from '../utils/worker';
+
+describe('loadDocument with sources read before loading', () => {
+  it('reads Blobs and Files', async () => {
+    const file = new File([new Uint8Array([1, 2, 3])], 'doc.pdf', { type: 'application/pdf' });
+
+    const { promise } = loadDocument(file);
+    await expect(promise).resolves.toMatchObject({ info: { numPages: 5 } });
+
+    expect(pdfjs.getDocument).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: new Uint8Array([1, 2, 3]) })
+    );
+  });
+
+  it('decodes base64', async () => {
+    await loadDocument('data:application/x-pdf;base64,JVBERi0=').promise;
+
+    expect(pdfjs.getDocument).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d]) })
+    );
+  });
+
+  it('fails invalid base64 with INVALID_SOURCE', async () => {
+    const { promise } = loadDocument('data:application/pdf;base64,JVBER*i0=');
+
+    await expect(promise).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+  });
+
+  it('reads Responses and reports progress', async () => {
+    const onProgress = vi.fn();
+    const response = new Response(new Uint8Array(10), { headers: { 'Content-Length': '10' } });
+
+    await loadDocument(response, { onProgress }).promise;
+
+    expect(pdfjs.getDocument).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.any(Uint8Array) })
+    );
+    expect(onProgress).toHaveBeenCalledWith({ loaded: 10, total: 10 });
+    // The response itself is left unread, so it can be loaded again
+    expect(response.bodyUsed).toBe(false);
+  });
+
+  it('fails with the status of an error Response', async () => {
+    const { promise } = loadDocument(new Response(null, { status: 404 }));
+
+    await expect(promise).rejects.toMatchObject({ code: 'HTTP_STATUS', status: 404 });
+  });
+
+  it('loads the source returned by a factory', async () => {
+    const factory = vi.fn((_signal: AbortSignal) => Promise.resolve('/doc.pdf'));
+
+    await loadDocument(factory).promise;
+
+    expect(factory).toHaveBeenCalledWith(expect.any(AbortSignal));
+    expect(pdfjs.getDocument).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: '/doc.pdf' })
+    );
+  });
+
+  it('aborts the factory when the task is destroyed', async () => {
+    let signal: AbortSignal | undefined;
+    const calls = vi.mocked(pdfjs.getDocument).mock.calls.length;
+
+    const { task, promise } = loadDocument((factorySignal) => {
+      signal = factorySignal;
+      return Promise.resolve(new Uint8Array(4));
+    });
+    await task.destroy();
+
+    expect(signal?.aborted).toBe(true);
+    await expect(promise).rejects.toBeInstanceOf(Error);
+    expect(pdfjs.getDocument).toHaveBeenCalledTimes(calls);
+  });
+
+  it('reports factory failures as viewer errors', async () => {
+    const { promise } = loadDocument(() => Promise.reject(new Error('Failed to fetch')));
+
+    await expect(promise).rejects.toMatchObject({ code: 'NETWORK' });
+  });
+});
+
+describe('loadDocument with a worker that cannot start', () => {
+  afterEach(() => {
+    resetWorker();
+  });
+
+  it('fails with WORKER_FAILED instead of waiting', async () => {
+    Object.defineProperty(getWorker(), 'promise', {
+      value: Promise.reject(new Error('Setting up fake worker failed: "Blocked by CSP".')),
+    });
+
+    const { promise } = loadDocument('/doc.pdf');
+
+    await expect(promise).rejects.toMatchObject({ code: 'WORKER_FAILED' });
+    expect(pdfjs.getDocument).toHaveBeenLastCalledWith(
+      expect.objectContaining({ worker: expect.any(pdfjs.PDFWorker) })
+    );
+  });
+});
+
+describe('loadDocument that cannot start', () => {
+  afterEach(() => {
+    pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+    resetWorker();
+  });
+
+  it('rejects instead of throwing without a worker', async () => {
+    pdfjs.GlobalWorkerOptions.workerSrc = '';
+    resetWorker();
+
+    const { promise } = loadDocument('/doc.pdf');
+
+    await expect(promise).rejects.toMatchObject({ code: 'WORKER_FAILED' });
+  });
+
+  it('rejects invalid sources with INVALID_SOURCE', async () => {
+    const { task, promise } = loadDocument(42 as never);
+
+    await expect(promise).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+    await expect(task.destroy()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRotatedSize,
+  getPageRotation,
+  getSpreadPages,
+  getSpreads,
+  getPageElements,
+  findVisiblePageRange,
+} from '../utils/pageLayout';
+import {
+  captureScrollAnchor,
+  restoreScrollAnchor,
+  rotateScrollAnchor,
+  type ScrollAnchor,
+} from '../utils/scrollAnchor';
+
+const PAGE_HEIGHT = 100;
+const VIEW_HEIGHT = 250;
+
+/**
+ * Build a scrollable container with a vertical column of pages whose
+ * bounding rects follow the container's scrollTop
+ */
+function createContainer(pageCount: number, pageHeight = PAGE_HEIGHT): HTMLDivElement {
+  const container = document.createElement('div');
+  Object.defineProperty(container, 'clientHeight', { value: VIEW_HEIGHT });
+  Object.defineProperty(container, 'clientWidth', { value: 200 });
+  container.getBoundingClientRect = () => new DOMRect(0, 0, 200, VIEW_HEIGHT);
+
+  for (let index = 0; index < pageCount; index++) {
+    const page = document.createElement('div');
+    page.setAttribute('data-page-number', String(index + 1));
+    page.getBoundingClientRect = () =>
+      new DOMRect(0, index * pageHeight - container.scrollTop, 200, pageHeight);
+    container.appendChild(page);
+  }
+
+  return container;
+}
+
+describe('getRotatedSize', () => {
+  it('keeps the size for 0 and 180 degrees', () => {
+    expect(getRotatedSize({ width: 10, height: 20 }, 0)).toEqual({ width: 10, height: 20 });
+    expect(getRotatedSize({ width: 10, height: 20 }, 180)).toEqual({ width: 10, height: 20 });
+  });
+
+  it('swaps width and height for 90 and 270 degrees', () => {
+    expect(getRotatedSize({ width: 10, height: 20 }, 90)).toEqual({ width: 20, height: 10 });
+    expect(getRotatedSize({ width: 10, height: 20 }, 270)).toEqual({ width: 20, height: 10 });
+  });
+});
+
+describe('getPageRotation', () => {
+  it('adds the page rotation to the document rotation', () => {
+    expect(getPageRotation(90, { 2: 270 }, 2)).toBe(0);
+    expect(getPageRotation(90, { 2: 90 }, 2)).toBe(180);
+    expect(getPageRotation(90, { 2: 90 }, 3)).toBe(90);
+  });
+});
+
+describe('spreads', () => {
+  it('pairs pages starting on odd pages', () => {
+    expect(getSpreads(5, 'odd')).toEqual([[1, 2], [3, 4], [5]]);
+    expect(getSpreadPages(4, 5, 'odd')).toEqual([3, 4]);
+  });
+
+  it('keeps the cover on its own in even mode', () => {
+    expect(getSpreads(5, 'even')).toEqual([[1], [2, 3], [4, 5]]);
+    expect(getSpreadPages(3, 5, 'even')).toEqual([2, 3]);
+  });
+
+  it('keeps single pages without spreads', () => {
+    expect(getSpreads(3, 'none')).toEqual([[1], [2], [3]]);
+  });
+});
+
+describe('findVisiblePageRange', () => {
+  it('returns null when there are no pages', () => {
+    const container = createContainer(0);
+    expect(findVisiblePageRange(container, getPageElements(container))).toBeNull();
+  });
+
+  it('finds the pages intersecting the visible area', () => {
+    const container = createContainer(3000);
+    container.scrollTop = 1050;
+
+    const range = findVisiblePageRange(container, getPageElements(container));
+    expect(range).toEqual({ start: 10, end: 13 });
+  });
+
+  it('extends the range by the overscan', () => {
+    const container = createContainer(3000);
+    container.scrollTop = 1050;
+
+    const range = findVisiblePageRange(container, getPageElements(container), 100);
+    expect(range).toEqual({ start: 9, end: 14 });
+  });
+
+  it('clamps the range to the document', () => {
+    const container = createContainer(5);
+
+    const range = findVisiblePageRange(container, getPageElements(container), 1000);
+    expect(range).toEqual({ start: 0, end: 4 });
+  });
+
+  it('measures along the horizontal axis', () => {
+    const container = createContainer(50);
+    getPageElements(container).forEach((page, index) => {
+      page.getBoundingClientRect = () =>
+        new DOMRect(index * 100 - container.scrollLeft, 0, 100, VIEW_HEIGHT);
+    });
+    container.scrollLeft = 1050;
+
+    const range = findVisiblePageRange(container, getPageElements(container), 0, 'horizontal');
+    expect(range).toEqual({ start: 10, end: 12 });
+  });
+
+  it('includes whole rows of wrapped pages', () => {
+    const container = createContainer(30);
+    getPageElements(container).forEach((page, index) => {
+      const row = Math.floor(index / 3);
+      page.getBoundingClientRect = () =>
+        new DOMRect((index % 3) * 60, row * 100 - container.scrollTop, 60, 90);
+    });
+    container.scrollTop = 150;
+
+    const range = findVisiblePageRange(container, getPageElements(container));
+    expect(range).toEqual({ start: 3, end: 14 });
+  });
+});
+
+describe('scroll anchor', () => {
+  it('captures the page under the center of the view', () => {
+    const container = createContainer(10);
+    container.scrollTop = 150;
+
+    const anchor = captureScrollAnchor(container);
+    expect(anchor).toMatchObject({ pageNumber: 3, pageX: 0.5, clientY: 125 });
+    expect(anchor?.pageY).toBeCloseTo(0.75);
+  });
+
+  it('scrolls back to the anchored point after the layout changes', () => {
+    const container = createContainer(10);
+    container.scrollTop = 150;
+    const anchor = captureScrollAnchor(container);
+
+    // Double every page height, as if the scale changed
+    const pages = getPageElements(container);
+    pages.forEach((page, index) => {
+      page.getBoundingClientRect = () =>
+        new DOMRect(0, index * 200 - container.scrollTop, 200, 200);
+    });
+
+    restoreScrollAnchor(container, anchor!);
+
+    // Page 3 now starts at 400, and 75% into it is 550, kept at 125 from the top
+    expect(container.scrollTop).toBe(425);
+  });
+
+  it('captures the anchor along the horizontal axis with mixed page sizes', () => {
+    const container = createContainer(0);
+
+    // A row of pages centered vertically, so their tops are not in order
+    const heights = [100, 400, 60, 200, 300, 80, 120];
+    heights.forEach((height, index) => {
+      const page = document.createElement('div');
+      page.setAttribute('data-page-number', String(index + 1));
+      page.getBoundingClientRect = () =>
+        new DOMRect(index * 100 - container.scrollLeft, (VIEW_HEIGHT - height) / 2, 100, height);
+      container.appendChild(page);
+    });
+
+    const anchor = captureScrollAnchor(container, { x: 50, y: 125 }, 'horizontal');
+    expect(anchor).toMatchObject({ pageNumber: 1, pageX: 0.5, pageY: 0.5 });
+
+    container.scrollLeft = 350;
+    expect(captureScrollAnchor(container, undefined, 'horizontal')).toMatchObject({
+      pageNumber: 5,
+      pageX: 0.5,
+    });
+  });
+
+  it('maps the anchored point onto a rotated page', () => {
+    const anchor: ScrollAnchor = { pageNumber: 1, pageX: 0.2, pageY: 0.1, clientX: 0, clientY: 0 };
+
+    expect(rotateScrollAnchor(anchor, 90)).toMatchObject({ pageX: 0.9, pageY: 0.2 });
+    expect(rotateScrollAnchor(anchor, 180)).toMatchObject({ pageX: 0.8, pageY: 0.9 });
+    expect(rotateScrollAnchor(anchor, -90)).toMatchObject({ pageX: 0.1, pageY: 0.8 });
+    expect(rotateScrollAnchor(anchor, 0)).toBe(anchor);
+  });
+});
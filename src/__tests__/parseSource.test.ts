@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseSource, base64ToUint8Array } from '../utils/parseSource';
+import { parseSource, base64ToUint8Array, decodeBase64 } from '../utils/parseSource';
 
 describe('parseSource', () => {
   describe('URL detection', () => {
@@ -42,6 +42,27 @@ describe('parseSource', () => {
       expect(result.type).toBe('base64');
       expect(result.data).toBe(base64);
     });
+
+    it('detects data URIs with other PDF MIME types and parameters', () => {
+      expect(parseSource('data:application/x-pdf;base64,JVBERi0xLjQKJ').type).toBe('base64');
+      expect(parseSource('data:application/pdf;name=a.pdf;base64,JVBERi0xLjQKJ').type).toBe('base64');
+      expect(parseSource('DATA:Application/PDF;BASE64,JVBERi0xLjQKJ').type).toBe('base64');
+    });
+
+    it('detects raw base64 by the PDF signature', () => {
+      expect(parseSource('JVBERi0xLjQKJ').type).toBe('base64');
+      expect(parseSource('\n  JVBERi0xLjQK\nJ').type).toBe('base64');
+    });
+
+    it('detects long raw base64 without the signature', () => {
+      expect(parseSource('A'.repeat(2048)).type).toBe('base64');
+    });
+
+    it('rejects data URIs that are not PDFs', () => {
+      expect(() => parseSource('data:image/png;base64,iVBORw0KGgo')).toThrow(
+        expect.objectContaining({ code: 'INVALID_SOURCE' })
+      );
+    });
   });
 
   describe('binary data detection', () => {
@@ -63,11 +84,47 @@ describe('parseSource', () => {
     });
   });
 
+  describe('range source detection', () => {
+    it('detects objects with a length and getRange', () => {
+      const source = { length: 1024, getRange: () => Promise.resolve(new Uint8Array()) };
+      const result = parseSource(source);
+      expect(result.type).toBe('range');
+      expect(result.data).toBe(source);
+    });
+
+    it('rejects objects without getRange', () => {
+      expect(() => parseSource({ length: 1024 } as unknown as string)).toThrow(
+        'Invalid PDF source type'
+      );
+    });
+  });
+
+  describe('sources read before loading', () => {
+    it('detects Blobs and Files', () => {
+      const file = new File([new Uint8Array(4)], 'doc.pdf', { type: 'application/pdf' });
+      expect(parseSource(file)).toEqual({ type: 'blob', data: file });
+      expect(parseSource(new Blob([])).type).toBe('blob');
+    });
+
+    it('detects Responses', () => {
+      const response = new Response(new Uint8Array(4));
+      expect(parseSource(response)).toEqual({ type: 'response', data: response });
+    });
+
+    it('detects source factories', () => {
+      const factory = () => Promise.resolve('/doc.pdf');
+      expect(parseSource(factory)).toEqual({ type: 'factory', data: factory });
+    });
+  });
+
   describe('invalid input', () => {
     it('throws error for invalid type', () => {
       expect(() => parseSource(123 as unknown as string)).toThrow(
         'Invalid PDF source type'
       );
+      expect(() => parseSource(123 as unknown as string)).toThrow(
+        expect.objectContaining({ code: 'INVALID_SOURCE' })
+      );
     });
 
     it('throws error for null', () => {
@@ -103,4 +160,44 @@ describe('base64ToUint8Array', () => {
     expect(result).toBeInstanceOf(Uint8Array);
     expect(result.length).toBe(0);
   });
+
+  it('handles URL-safe, unpadded, wrapped and percent-encoded base64', () => {
+    // 0xfb 0xff 0xbf is "+/+/" in the standard alphabet
+    expect(Array.from(base64ToUint8Array('-_-_'))).toEqual([0xfb, 0xff, 0xbf]);
+    expect(Array.from(base64ToUint8Array('SGVsbG8'))).toEqual([72, 101, 108, 108, 111]);
+    expect(Array.from(base64ToUint8Array('SGVs\r\nbG8='))).toEqual([72, 101, 108, 108, 111]);
+    expect(Array.from(base64ToUint8Array('data:application/pdf;base64,SGVsbG8%3D'))).toEqual([
+      72, 101, 108, 108, 111,
+    ]);
+  });
+
+  it('throws a clear error for invalid base64', () => {
+    expect(() => base64ToUint8Array('SGVs*G8=')).toThrow(
+      expect.objectContaining({ code: 'INVALID_SOURCE' })
+    );
+    expect(() => base64ToUint8Array('SGVsb')).toThrow('not valid base64');
+  });
+});
+
+describe('decodeBase64', () => {
+  it('decodes large payloads in chunks', async () => {
+    // "AQID" is the bytes 1, 2, 3
+    const result = await decodeBase64('AQID'.repeat(300000));
+
+    expect(result).toHaveLength(900000);
+    expect(Array.from(result.subarray(0, 6))).toEqual([1, 2, 3, 1, 2, 3]);
+    expect(Array.from(result.subarray(-3))).toEqual([1, 2, 3]);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const promise = decodeBase64('A'.repeat(3 * 1024 * 1024), controller.signal);
+    controller.abort();
+
+    await expect(promise).rejects.toThrow('Loading aborted');
+  });
+
+  it('rejects invalid base64', async () => {
+    await expect(decodeBase64('not base64!')).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+  });
 });
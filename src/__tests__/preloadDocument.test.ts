@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import * as pdfjs from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { preloadDocument } from '../utils/preloadDocument';
+import { createDocumentCache, getDocumentCacheKey } from '../utils/documentCache';
+import { usePDFDocument } from '../hooks/usePDFDocument';
+
+function getLoadedDocument(call = 0): Promise<PDFDocumentProxy> {
+  return vi.mocked(pdfjs.getDocument).mock.results[call].value.promise;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('preloadDocument', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the document and its info ahead of time', async () => {
+    const preloaded = preloadDocument('/next.pdf');
+
+    expect(pdfjs.getDocument).toHaveBeenCalledTimes(1);
+    await expect(preloaded.promise).resolves.toMatchObject({
+      numPages: 5,
+      metadata: { title: 'Test Document' },
+    });
+
+    preloaded.cancel();
+  });
+
+  it('hands the preloaded document to a viewer with the same source', async () => {
+    const preloaded = preloadDocument('/queued.pdf', { withCredentials: false });
+    await preloaded.promise;
+
+    const { result } = renderHook(() => usePDFDocument('/queued.pdf'));
+    await waitFor(() => {
+      expect(result.current.state).toBe('ready');
+    });
+
+    expect(pdfjs.getDocument).toHaveBeenCalledTimes(1);
+    expect(result.current.document).toBe(await getLoadedDocument());
+
+    // The viewer now owns the document
+    preloaded.cancel();
+    await flush();
+    expect(result.current.document?.destroy).not.toHaveBeenCalled();
+  });
+
+  it('destroys the document when cancelled before use', async () => {
+    const preloaded = preloadDocument('/cancelled.pdf');
+    await preloaded.promise;
+
+    preloaded.cancel();
+    await flush();
+
+    expect((await getLoadedDocument()).destroy).toHaveBeenCalled();
+  });
+
+  it('renders the first page when requested', async () => {
+    const preloaded = preloadDocument('/rendered.pdf', { renderFirstPage: true });
+    await preloaded.promise;
+
+    const document = await getLoadedDocument();
+    expect(document.getPage).toHaveBeenCalledWith(1);
+    const page = await vi.mocked(document.getPage).mock.results[0].value;
+    expect(page.render).toHaveBeenCalled();
+
+    preloaded.cancel();
+  });
+
+  it('preloads into the given cache', async () => {
+    const cache = createDocumentCache(1);
+    const preloaded = preloadDocument('/provided.pdf', { cache });
+    await preloaded.promise;
+
+    const load = vi.fn();
+    const handle = cache.acquire(getDocumentCacheKey('/provided.pdf'), load);
+
+    expect(load).not.toHaveBeenCalled();
+    expect((await handle.promise).document).toBe(await getLoadedDocument());
+    handle.release();
+  });
+
+  it('rejects invalid sources instead of throwing', async () => {
+    const preloaded = preloadDocument(42 as never);
+
+    await expect(preloaded.promise).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+    expect(() => preloaded.cancel()).not.toThrow();
+  });
+});
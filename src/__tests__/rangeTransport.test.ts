@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as pdfjs from 'pdfjs-dist';
+import { createRangeTransport } from '../utils/rangeTransport';
+import { loadDocument } from '../utils/loadDocument';
+
+describe('createRangeTransport', () => {
+  it('answers range requests from the reader', async () => {
+    const chunk = new Uint8Array([1, 2, 3]);
+    const readRange = vi.fn(() => Promise.resolve(chunk));
+    const { range } = createRangeTransport(100, null, readRange);
+
+    range.requestDataRange(10, 13);
+
+    await vi.waitFor(() => {
+      expect(range.onDataRange).toHaveBeenCalledWith(10, chunk);
+    });
+    expect(readRange).toHaveBeenCalledWith(10, 13);
+  });
+
+  it('rejects failed when a range cannot be read', async () => {
+    const { range, failed } = createRangeTransport(100, null, () =>
+      Promise.reject(new Error('Chunk missing'))
+    );
+
+    range.requestDataRange(0, 10);
+
+    await expect(failed).rejects.toThrow('Chunk missing');
+  });
+
+  it('ignores ranges arriving after an abort', async () => {
+    const { range } = createRangeTransport(100, null, () => Promise.resolve(new Uint8Array(10)));
+
+    range.requestDataRange(0, 10);
+    range.abort();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(range.onDataRange).not.toHaveBeenCalled();
+  });
+});
+
+describe('loadDocument with a range source', () => {
+  it('loads through a range transport', async () => {
+    const initialData = new Uint8Array(16);
+    const source = { length: 4096, initialData, getRange: vi.fn() };
+
+    await loadDocument(source).promise;
+
+    const params = vi.mocked(pdfjs.getDocument).mock.lastCall?.[0] as {
+      range: pdfjs.PDFDataRangeTransport;
+    };
+    expect(params.range.length).toBe(4096);
+    expect(params.range.initialData).toBe(initialData);
+  });
+
+  it('fails the load when a range cannot be read', async () => {
+    vi.mocked(pdfjs.getDocument).mockImplementationOnce(
+      () => ({ promise: new Promise(() => {}), destroy: vi.fn() }) as never
+    );
+    const source = {
+      length: 4096,
+      getRange: () => Promise.reject(new Error('Failed to fetch chunk')),
+    };
+
+    const { promise } = loadDocument(source);
+    const params = vi.mocked(pdfjs.getDocument).mock.lastCall?.[0] as {
+      range: pdfjs.PDFDataRangeTransport;
+    };
+    params.range.requestDataRange(0, 1024);
+
+    await expect(promise).rejects.toMatchObject({ code: 'NETWORK' });
+  });
+
+  it('destroys the document when a range fails after it opened', async () => {
+    const source = {
+      length: 4096,
+      getRange: () => Promise.reject(new Error('401 Unauthorized')),
+    };
+
+    const { promise } = loadDocument(source);
+    await promise;
+    const { results } = vi.mocked(pdfjs.getDocument).mock;
+    const task = results[results.length - 1].value as { destroy: () => void };
+    const params = vi.mocked(pdfjs.getDocument).mock.lastCall?.[0] as {
+      range: pdfjs.PDFDataRangeTransport;
+    };
+    params.range.requestDataRange(1024, 2048);
+
+    await vi.waitFor(() => {
+      expect(task.destroy).toHaveBeenCalled();
+    });
+  });
+});
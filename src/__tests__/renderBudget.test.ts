@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { selectRetainedPages } from '../utils/renderBudget';
+
+const pixels = () => 100;
+
+describe('selectRetainedPages', () => {
+  it('always keeps visible pages', () => {
+    const retained = selectRetainedPages([1, 2, 3], new Map(), pixels, { maxPages: 1 });
+    expect(Array.from(retained)).toEqual([1, 2, 3]);
+  });
+
+  it('keeps the most recently seen pages up to the page limit', () => {
+    const lastSeen = new Map([
+      [4, 1],
+      [5, 3],
+      [6, 2],
+    ]);
+
+    const retained = selectRetainedPages([1], lastSeen, pixels, { maxPages: 3 });
+    expect(Array.from(retained).sort()).toEqual([1, 5, 6]);
+  });
+
+  it('keeps the most recently seen pages up to the pixel limit', () => {
+    const lastSeen = new Map([
+      [4, 1],
+      [5, 3],
+      [6, 2],
+    ]);
+
+    const retained = selectRetainedPages([1], lastSeen, pixels, { maxPixels: 250 });
+    expect(Array.from(retained).sort()).toEqual([1, 5]);
+  });
+
+  it('applies both limits together', () => {
+    const lastSeen = new Map([
+      [2, 1],
+      [3, 2],
+    ]);
+    const getPixels = (pageNumber: number) => (pageNumber === 3 ? 1000 : 10);
+
+    const retained = selectRetainedPages([1], lastSeen, getPixels, {
+      maxPages: 5,
+      maxPixels: 500,
+    });
+    expect(Array.from(retained)).toEqual([1]);
+  });
+
+  it('keeps everything seen when the budget is unlimited', () => {
+    const lastSeen = new Map([
+      [2, 1],
+      [3, 2],
+    ]);
+
+    const retained = selectRetainedPages([1], lastSeen, pixels, {});
+    expect(retained.size).toBe(3);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRenderQueue } from '../utils/renderQueue';
+
+/**
+ * Create a render whose completion is controlled by the test
+ */
+function createDeferredRender() {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  const cancel = vi.fn(() => {
+    const error = new Error('cancelled');
+    error.name = 'RenderingCancelledException';
+    reject(error);
+  });
+  return { promise, cancel, resolve };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createRenderQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'requestIdleCallback'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caps the number of concurrent renders', () => {
+    const queue = createRenderQueue({ concurrency: 2 });
+    const starts = [1, 2, 3].map((pageNumber) => {
+      const start = vi.fn(createDeferredRender);
+      queue.enqueue(pageNumber, start);
+      return start;
+    });
+
+    expect(starts[0]).toHaveBeenCalled();
+    expect(starts[1]).toHaveBeenCalled();
+    expect(starts[2]).not.toHaveBeenCalled();
+  });
+
+  it('starts the next render when one completes', async () => {
+    vi.useRealTimers();
+    const queue = createRenderQueue({ concurrency: 1 });
+    const first = createDeferredRender();
+    const secondStart = vi.fn(createDeferredRender);
+
+    queue.enqueue(1, () => first);
+    queue.enqueue(2, secondStart);
+    expect(secondStart).not.toHaveBeenCalled();
+
+    first.resolve();
+    await flush();
+
+    expect(secondStart).toHaveBeenCalled();
+  });
+
+  it('renders visible pages before others', () => {
+    const queue = createRenderQueue({ concurrency: 1 });
+    queue.setViewport({
+      visible: { start: 4, end: 4 },
+      window: { start: 0, end: 9 },
+      direction: 1,
+    });
+
+    const neighborStart = vi.fn(createDeferredRender);
+    const visibleStart = vi.fn(createDeferredRender);
+    queue.enqueue(4, neighborStart);
+    queue.enqueue(5, visibleStart);
+
+    expect(visibleStart).toHaveBeenCalled();
+    expect(neighborStart).not.toHaveBeenCalled();
+  });
+
+  it('pre-renders neighbors in the scroll direction during idle time', async () => {
+    const queue = createRenderQueue({ concurrency: 1 });
+    queue.setViewport({
+      visible: { start: 4, end: 4 },
+      window: { start: 0, end: 9 },
+      direction: -1,
+    });
+
+    const afterStart = vi.fn(createDeferredRender);
+    const beforeStart = vi.fn(createDeferredRender);
+    queue.enqueue(6, afterStart);
+    queue.enqueue(4, beforeStart);
+
+    expect(beforeStart).not.toHaveBeenCalled();
+
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(beforeStart).toHaveBeenCalled();
+    expect(afterStart).not.toHaveBeenCalled();
+  });
+
+  it('does not start renders for pages outside the window', async () => {
+    const queue = createRenderQueue();
+    queue.setViewport({
+      visible: { start: 0, end: 0 },
+      window: { start: 0, end: 2 },
+      direction: 1,
+    });
+
+    const start = vi.fn(createDeferredRender);
+    queue.enqueue(10, start);
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(start).not.toHaveBeenCalled();
+  });
+
+  it('cancels stale renders and resumes them when the page comes back', async () => {
+    vi.useRealTimers();
+    const queue = createRenderQueue();
+    const renders: ReturnType<typeof createDeferredRender>[] = [];
+    queue.enqueue(1, () => {
+      const render = createDeferredRender();
+      renders.push(render);
+      return render;
+    });
+
+    queue.setViewport({
+      visible: { start: 20, end: 20 },
+      window: { start: 18, end: 22 },
+      direction: 1,
+    });
+    expect(renders[0].cancel).toHaveBeenCalled();
+    await flush();
+
+    queue.setViewport({
+      visible: { start: 0, end: 0 },
+      window: { start: 0, end: 2 },
+      direction: -1,
+    });
+    expect(renders).toHaveLength(2);
+  });
+
+  it('rejects with a cancellation error when cancelled', async () => {
+    const queue = createRenderQueue();
+    const render = createDeferredRender();
+    const task = queue.enqueue(1, () => render);
+
+    task.cancel();
+
+    await expect(task.promise).rejects.toMatchObject({ name: 'RenderingCancelledException' });
+    expect(render.cancel).toHaveBeenCalled();
+  });
+
+  it('reports render timings', async () => {
+    vi.useRealTimers();
+    const onRenderTiming = vi.fn();
+    const queue = createRenderQueue({ onRenderTiming });
+    const render = createDeferredRender();
+
+    const task = queue.enqueue(3, () => render);
+    render.resolve();
+    await task.promise;
+
+    expect(onRenderTiming).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pageNumber: 3,
+        priority: 'visible',
+        waitTime: expect.any(Number),
+        renderTime: expect.any(Number),
+      })
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { PDFViewerError } from '../utils/errors';
+import { resolveRetryPolicy, getRetryDelay, isTransientError } from '../utils/retry';
+
+describe('isTransientError', () => {
+  it('retries network errors and temporary server errors', () => {
+    expect(isTransientError(new PDFViewerError('NETWORK', 'Failed to fetch'))).toBe(true);
+    expect(isTransientError(new PDFViewerError('HTTP_STATUS', 'Unavailable', { status: 503 }))).toBe(true);
+    expect(isTransientError(new PDFViewerError('HTTP_STATUS', 'Too many requests', { status: 429 }))).toBe(true);
+  });
+
+  it('does not retry errors that would fail again', () => {
+    expect(isTransientError(new PDFViewerError('HTTP_STATUS', 'Missing', { status: 404 }))).toBe(false);
+    expect(isTransientError(new PDFViewerError('INVALID_PDF', 'Invalid PDF'))).toBe(false);
+    expect(isTransientError(new PDFViewerError('PASSWORD_REQUIRED', 'No password'))).toBe(false);
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('disables retries without a policy', () => {
+    expect(resolveRetryPolicy(undefined)).toBeNull();
+    expect(resolveRetryPolicy(false)).toBeNull();
+  });
+
+  it('fills in defaults', () => {
+    const policy = resolveRetryPolicy(true);
+    expect(policy).toMatchObject({ attempts: 2, delay: 1000, maxDelay: 10000 });
+    expect(policy?.shouldRetry(new PDFViewerError('NETWORK', 'Offline'))).toBe(true);
+  });
+
+  it('accepts a list of error codes', () => {
+    const policy = resolveRetryPolicy({ retryOn: ['WORKER_FAILED'] });
+    expect(policy?.shouldRetry(new PDFViewerError('WORKER_FAILED', 'Worker failed'))).toBe(true);
+    expect(policy?.shouldRetry(new PDFViewerError('NETWORK', 'Offline'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay up to the maximum', () => {
+    const policy = resolveRetryPolicy({ attempts: 5, delay: 500, maxDelay: 3000 })!;
+    expect([1, 2, 3, 4].map((retry) => getRetryDelay(policy, retry))).toEqual([500, 1000, 2000, 3000]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { calculateScale, clampScale, MIN_SCALE, MAX_SCALE } from '../utils/scale';
+
+describe('clampScale', () => {
+  it('clamps to the allowed range', () => {
+    expect(clampScale(0)).toBe(MIN_SCALE);
+    expect(clampScale(100)).toBe(MAX_SCALE);
+    expect(clampScale(2)).toBe(2);
+  });
+});
+
+describe('calculateScale', () => {
+  it('keeps numeric scales', () => {
+    expect(calculateScale(1.25, 800, 600, 400, 500)).toBe(1.25);
+  });
+
+  it('fits the page width, leaving padding', () => {
+    expect(calculateScale('page-width', 840, 600, 400, 500)).toBe(2);
+  });
+
+  it('fits the whole page', () => {
+    expect(calculateScale('page-fit', 840, 540, 400, 500)).toBe(1);
+  });
+
+  it('uses the actual size', () => {
+    expect(calculateScale('page-actual', 840, 540, 400, 500)).toBe(1);
+  });
+
+  it('caps the auto scale for narrow pages', () => {
+    expect(calculateScale('auto', 2040, 600, 400, 500)).toBe(1.5);
+    expect(calculateScale('auto', 440, 600, 400, 500)).toBe(1);
+  });
+
+  it('follows the container size', () => {
+    expect(calculateScale('page-width', 440, 600, 400, 500)).toBe(1);
+    expect(calculateScale('page-width', 240, 600, 400, 500)).toBe(0.5);
+  });
+
+  it('fits two pages side by side in spreads', () => {
+    // 840 - 40 padding - 20 gap leaves 780 for two 390-wide pages
+    expect(calculateScale('page-width', 840, 600, 390, 500, 2, 20)).toBe(1);
+  });
+});
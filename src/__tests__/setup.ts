@@ -5,7 +5,26 @@ import { vi } from 'vitest';
 vi.mock('pdfjs-dist', () => ({
   version: '4.0.379',
   GlobalWorkerOptions: {
-    workerSrc: '',
+    workerSrc: '/pdf.worker.min.mjs',
+  },
+  PasswordResponses: {
+    NEED_PASSWORD: 1,
+    INCORRECT_PASSWORD: 2,
+  },
+  PDFWorker: class {
+    static fromPort = vi.fn(({ port }: { port: unknown }) => Object.assign(new this(), { port }));
+    destroyed = false;
+    promise = Promise.resolve();
+    destroy() {
+      this.destroyed = true;
+    }
+  },
+  PDFDataRangeTransport: class {
+    constructor(
+      public length: number,
+      public initialData: Uint8Array | null
+    ) {}
+    onDataRange = vi.fn();
   },
   getDocument: vi.fn(() => ({
     promise: Promise.resolve({
@@ -30,6 +49,7 @@ vi.mock('pdfjs-dist', () => ({
             })
           ),
           getAnnotations: vi.fn(() => Promise.resolve([])),
+          cleanup: vi.fn(() => true),
         })
       ),
       getMetadata: vi.fn(() =>
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  shouldUseTiles,
+  getBackdropScale,
+  getVisibleTiles,
+  getPagePixels,
+  BACKDROP_MAX_PIXELS,
+  TILE_SIZE,
+} from '../utils/tiles';
+
+describe('shouldUseTiles', () => {
+  it('uses a single canvas below the pixel limit', () => {
+    expect(shouldUseTiles(1000, 1000, 1, 4096 * 4096)).toBe(false);
+  });
+
+  it('switches to tiles above the pixel limit', () => {
+    expect(shouldUseTiles(3000, 3000, 2, 4096 * 4096)).toBe(true);
+  });
+});
+
+describe('getBackdropScale', () => {
+  it('keeps small pages at full resolution', () => {
+    expect(getBackdropScale(100, 100)).toBe(1);
+  });
+
+  it('limits the backdrop to the backdrop pixel budget', () => {
+    const scale = getBackdropScale(10000, 10000);
+    expect(10000 * scale * 10000 * scale).toBeCloseTo(BACKDROP_MAX_PIXELS);
+  });
+});
+
+describe('getVisibleTiles', () => {
+  it('returns only tiles intersecting the visible region', () => {
+    const tiles = getVisibleTiles(
+      2000,
+      2000,
+      { left: 600, top: 600, right: 900, bottom: 900 },
+      500,
+      0
+    );
+
+    expect(tiles.map((tile) => tile.key)).toEqual(['1:1']);
+    expect(tiles[0]).toMatchObject({ x: 500, y: 500, width: 500, height: 500 });
+  });
+
+  it('includes neighboring tiles within the margin', () => {
+    const tiles = getVisibleTiles(
+      2000,
+      2000,
+      { left: 550, top: 550, right: 850, bottom: 850 },
+      500,
+      100
+    );
+
+    expect(tiles.map((tile) => tile.key)).toEqual(['0:0', '1:0', '0:1', '1:1']);
+  });
+
+  it('clips edge tiles to the page', () => {
+    const tiles = getVisibleTiles(1200, 700, { left: 0, top: 0, right: 1200, bottom: 700 }, 500, 0);
+
+    expect(tiles).toHaveLength(6);
+    expect(tiles[tiles.length - 1]).toMatchObject({ x: 1000, y: 500, width: 200, height: 200 });
+  });
+
+  it('returns no tiles when the page is out of view', () => {
+    const tiles = getVisibleTiles(
+      1000,
+      1000,
+      { left: 0, top: 2000, right: 1000, bottom: 2500 },
+      500,
+      0
+    );
+
+    expect(tiles).toEqual([]);
+  });
+});
+
+describe('getPagePixels', () => {
+  it('counts the canvas of an untiled page', () => {
+    expect(getPagePixels(1000, 1000, 2, 4096 * 4096, null)).toBe(4000000);
+  });
+
+  it('counts only the backdrop of a tiled page out of view', () => {
+    expect(getPagePixels(10000, 10000, 1, 4096 * 4096, null)).toBeCloseTo(BACKDROP_MAX_PIXELS);
+  });
+
+  it('adds the tiles covering the viewport of a tiled page in view', () => {
+    const pixels = getPagePixels(10000, 10000, 2, 4096 * 4096, { width: 800, height: 600 });
+    const tiled = (800 + 2 * TILE_SIZE) * (600 + 2 * TILE_SIZE) * 4;
+
+    expect(pixels).toBeCloseTo(BACKDROP_MAX_PIXELS + tiled);
+  });
+});
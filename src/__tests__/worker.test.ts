@@ -1,23 +1,63 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as pdfjs from 'pdfjs-dist';
 import {
   initializeWorker,
   isWorkerInitialized,
   resetWorker,
+  getWorker,
+  waitForWorker,
 } from '../utils/worker';
 
 describe('worker utilities', () => {
   beforeEach(() => {
     resetWorker();
     vi.clearAllMocks();
+    pdfjs.GlobalWorkerOptions.workerSrc = '';
+    pdfjs.GlobalWorkerOptions.workerPort = null;
   });
 
   describe('initializeWorker', () => {
-    it('sets worker source from CDN when no custom path provided', () => {
+    it('fails with WORKER_FAILED when no worker is set', () => {
+      expect(() => initializeWorker()).toThrow(
+        expect.objectContaining({ code: 'WORKER_FAILED', message: expect.stringContaining('workerSrc') })
+      );
+      expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe('');
+      expect(isWorkerInitialized()).toBe(false);
+    });
+
+    it('keeps a worker source the app set itself', () => {
+      pdfjs.GlobalWorkerOptions.workerSrc = '/app/pdf.worker.mjs';
       initializeWorker();
 
-      expect(pdfjs.GlobalWorkerOptions.workerSrc).toContain('unpkg.com');
-      expect(pdfjs.GlobalWorkerOptions.workerSrc).toContain('pdf.worker');
+      expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe('/app/pdf.worker.mjs');
+    });
+
+    it('accepts a URL', () => {
+      initializeWorker(new URL('https://example.com/pdf.worker.mjs'));
+
+      expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe('https://example.com/pdf.worker.mjs');
+    });
+
+    it('uses a worker the app started itself', () => {
+      const workerPort = {} as Worker;
+      initializeWorker({ workerSrc: '/unused.js', workerPort });
+
+      expect(pdfjs.GlobalWorkerOptions.workerPort).toBe(workerPort);
+      expect(pdfjs.GlobalWorkerOptions.workerSrc).toBe('');
+      expect(pdfjs.PDFWorker.fromPort).toHaveBeenCalledTimes(0);
+
+      getWorker();
+      expect(pdfjs.PDFWorker.fromPort).toHaveBeenCalledWith({ port: workerPort });
+    });
+
+    it('rejects a worker from another pdfjs-dist version', () => {
+      expect(() =>
+        initializeWorker('https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js')
+      ).toThrow(expect.objectContaining({ code: 'WORKER_FAILED' }));
+      expect(isWorkerInitialized()).toBe(false);
+
+      initializeWorker(`https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`);
+      expect(isWorkerInitialized()).toBe(true);
     });
 
     it('uses custom worker path when provided', () => {
@@ -35,20 +75,82 @@ describe('worker utilities', () => {
     });
   });
 
+  describe('getWorker', () => {
+    it('shares one worker between loads', () => {
+      expect(getWorker()).toBe(getWorker());
+    });
+
+    it('starts a new worker after a reset', () => {
+      const worker = getWorker();
+      resetWorker();
+
+      expect(worker.destroyed).toBe(true);
+      expect(getWorker()).not.toBe(worker);
+    });
+  });
+
+  describe('waitForWorker', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('resolves once the worker started', async () => {
+      await expect(waitForWorker(getWorker())).resolves.toBeUndefined();
+    });
+
+    it('fails with WORKER_FAILED when the worker does not start', async () => {
+      vi.useFakeTimers();
+      const worker = getWorker();
+      Object.defineProperty(worker, 'promise', { value: new Promise(() => {}) });
+
+      const started = waitForWorker(worker);
+      vi.advanceTimersByTime(10000);
+
+      await expect(started).rejects.toMatchObject({ code: 'WORKER_FAILED' });
+      expect(worker.destroyed).toBe(true);
+      expect(getWorker()).not.toBe(worker);
+    });
+
+    it('fails with WORKER_FAILED when the worker cannot be set up', async () => {
+      const worker = getWorker();
+      Object.defineProperty(worker, 'promise', {
+        value: Promise.reject(new Error('Setting up fake worker failed: "Failed to fetch".')),
+      });
+
+      await expect(waitForWorker(worker)).rejects.toMatchObject({ code: 'WORKER_FAILED' });
+    });
+
+    it('explains a worker from another pdfjs-dist version', async () => {
+      const worker = getWorker();
+      Object.defineProperty(worker, 'promise', {
+        value: Promise.reject(
+          new Error('The API version "4.10.38" does not match the Worker version "3.11.174".')
+        ),
+      });
+
+      await expect(waitForWorker(worker)).rejects.toMatchObject({
+        code: 'WORKER_FAILED',
+        message: expect.stringContaining(
+          'The PDF.js worker is version 3.11.174, but pdfjs-dist is version 4.10.38.'
+        ),
+      });
+    });
+  });
+
   describe('isWorkerInitialized', () => {
     it('returns false before initialization', () => {
       expect(isWorkerInitialized()).toBe(false);
     });
 
     it('returns true after initialization', () => {
-      initializeWorker();
+      initializeWorker('/pdf.worker.min.mjs');
       expect(isWorkerInitialized()).toBe(true);
     });
   });
 
   describe('resetWorker', () => {
     it('resets initialization state', () => {
-      initializeWorker();
+      initializeWorker('/pdf.worker.min.mjs');
       expect(isWorkerInitialized()).toBe(true);
 
       resetWorker();
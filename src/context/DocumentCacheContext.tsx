@@ -0,0 +1,53 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import {
+  createDocumentCache,
+  defaultDocumentCache,
+  type DocumentCache,
+} from '../utils/documentCache';
+
+const DocumentCacheContext = createContext<DocumentCache>(defaultDocumentCache);
+
+/**
+ * Hook to access the document cache of the nearest provider
+ */
+export function useDocumentCache(): DocumentCache {
+  return useContext(DocumentCacheContext);
+}
+
+/**
+ * Props for the PDF Document Cache Provider
+ */
+export interface PDFDocumentCacheProviderProps {
+  children: ReactNode;
+  /** Number of documents kept, counting those in use. Unused documents beyond it are destroyed, least recently used first. */
+  maxDocuments?: number;
+}
+
+/**
+ * Keeps loaded documents for the viewers inside it, so remounting a viewer or
+ * showing the same document twice does not load it again
+ */
+export function PDFDocumentCacheProvider({
+  children,
+  maxDocuments = 5,
+}: PDFDocumentCacheProviderProps): JSX.Element {
+  const [cache] = useState(() => createDocumentCache(maxDocuments));
+
+  useEffect(() => {
+    cache.setMaxEntries(maxDocuments);
+  }, [cache, maxDocuments]);
+
+  // Documents still in use are destroyed when their viewers unmount
+  useEffect(() => {
+    return () => {
+      cache.setMaxEntries(0);
+      cache.clear();
+    };
+  }, [cache]);
+
+  return (
+    <DocumentCacheContext.Provider value={cache}>
+      {children}
+    </DocumentCacheContext.Provider>
+  );
+}
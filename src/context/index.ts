@@ -8,3 +8,8 @@ export {
   type PDFViewerInternalProviderProps,
   type PDFViewerInternalState,
 } from './PDFViewerContext';
+export {
+  PDFDocumentCacheProvider,
+  useDocumentCache,
+  type PDFDocumentCacheProviderProps,
+} from './DocumentCacheContext';
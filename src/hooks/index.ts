@@ -1,4 +1,12 @@
-export { usePDFDocument, type UsePDFDocumentResult, type UsePDFDocumentOptions } from './usePDFDocument';
+export {
+  usePDFDocument,
+  type UsePDFDocumentResult,
+  type UsePDFDocumentOptions,
+  type PasswordRequest,
+} from './usePDFDocument';
 export { usePDFViewer, usePDFViewerRef, type UsePDFViewerOptions, type UsePDFViewerResult } from './usePDFViewer';
 export { useZoomPrevention, type UseZoomPreventionOptions } from './useZoomPrevention';
+export { useGestureZoom, type UseGestureZoomOptions, type ZoomOrigin } from './useGestureZoom';
 export { usePageTracking, type UsePageTrackingOptions } from './usePageTracking';
+export { usePresentationMode, type UsePresentationModeOptions, type UsePresentationModeResult } from './usePresentationMode';
+export { useSwipeNavigation, type UseSwipeNavigationOptions, type SwipeDirection } from './useSwipeNavigation';
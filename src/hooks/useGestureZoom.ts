@@ -0,0 +1,185 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import type { ViewportPoint } from '../PDFViewer.types';
+import { clampScale, MIN_SCALE, MAX_SCALE } from '../utils/scale';
+
+/**
+ * Point relative to the container's visible area that stays fixed while zooming
+ */
+export type ZoomOrigin = ViewportPoint;
+
+/**
+ * Options for the useGestureZoom hook
+ */
+export interface UseGestureZoomOptions {
+  /** Reference to the container element */
+  containerRef: RefObject<HTMLElement>;
+  /** Whether gesture zoom is enabled */
+  enabled: boolean;
+  /** Current scale */
+  scale: number;
+  /** Called with the new scale and the point under the pointer or fingers */
+  onZoom: (scale: number, origin: ZoomOrigin) => void;
+  /** Smallest scale a gesture can reach */
+  minScale?: number;
+  /** Largest scale a gesture can reach */
+  maxScale?: number;
+}
+
+/**
+ * Safari's non-standard gesture event
+ */
+interface SafariGestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+  clientY: number;
+}
+
+// How fast Ctrl/Cmd+wheel zooms, per pixel of wheel delta
+const WHEEL_ZOOM_SPEED = 0.01;
+// Pixels per line for wheel events reported in lines
+const WHEEL_LINE_HEIGHT = 16;
+
+function getTouchDistance(touches: TouchList): number {
+  return Math.hypot(
+    touches[0].clientX - touches[1].clientX,
+    touches[0].clientY - touches[1].clientY
+  );
+}
+
+/**
+ * Hook to zoom with trackpad pinch, touch pinch, Ctrl/Cmd+wheel and Safari
+ * gesture events. Updates are coalesced to one per animation frame.
+ */
+export function useGestureZoom(options: UseGestureZoomOptions): void {
+  const {
+    containerRef,
+    enabled,
+    scale,
+    onZoom,
+    minScale = MIN_SCALE,
+    maxScale = MAX_SCALE,
+  } = options;
+
+  // Read through refs so listeners are not re-attached on every zoom step
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+  const onZoomRef = useRef(onZoom);
+  onZoomRef.current = onZoom;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+
+    let frame = 0;
+    let pending: { scale: number; origin: ZoomOrigin } | null = null;
+    let pinch: { distance: number; scale: number } | null = null;
+    let gestureStartScale: number | null = null;
+
+    // Scale the gesture builds on, including updates not yet applied
+    const getScale = () => pending?.scale ?? scaleRef.current;
+
+    const getOrigin = (clientX: number, clientY: number): ZoomOrigin => {
+      const rect = container.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+    };
+
+    const requestZoom = (nextScale: number, origin: ZoomOrigin) => {
+      const clamped = clampScale(nextScale, minScale, maxScale);
+      if (clamped === getScale()) return;
+
+      pending = { scale: clamped, origin };
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          if (pending) {
+            onZoomRef.current(pending.scale, pending.origin);
+            pending = null;
+          }
+        });
+      }
+    };
+
+    // Trackpad pinch arrives as a wheel event with ctrlKey set
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+
+      let delta = event.deltaY;
+      if (event.deltaMode === 1) delta *= WHEEL_LINE_HEIGHT;
+      if (event.deltaMode === 2) delta *= container.clientHeight;
+
+      requestZoom(
+        getScale() * Math.exp(-delta * WHEEL_ZOOM_SPEED),
+        getOrigin(event.clientX, event.clientY)
+      );
+    };
+
+    const handleTouchStart = (event: TouchEvent) => {
+      if (event.touches.length === 2) {
+        pinch = { distance: getTouchDistance(event.touches), scale: getScale() };
+      }
+    };
+
+    const handleTouchMove = (event: TouchEvent) => {
+      if (!pinch || event.touches.length !== 2 || pinch.distance === 0) return;
+      event.preventDefault();
+
+      const [first, second] = [event.touches[0], event.touches[1]];
+      requestZoom(
+        (pinch.scale * getTouchDistance(event.touches)) / pinch.distance,
+        getOrigin((first.clientX + second.clientX) / 2, (first.clientY + second.clientY) / 2)
+      );
+    };
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (event.touches.length < 2) {
+        pinch = null;
+      }
+    };
+
+    const handleGestureStart = (event: Event) => {
+      event.preventDefault();
+      gestureStartScale = getScale();
+    };
+
+    const handleGestureChange = (event: Event) => {
+      event.preventDefault();
+
+      // On iOS touch events already drive the pinch
+      if (pinch || gestureStartScale === null) return;
+
+      const gesture = event as SafariGestureEvent;
+      requestZoom(gestureStartScale * gesture.scale, getOrigin(gesture.clientX, gesture.clientY));
+    };
+
+    const handleGestureEnd = (event: Event) => {
+      event.preventDefault();
+      gestureStartScale = null;
+    };
+
+    // Add passive: false to allow preventDefault
+    const activeOptions: AddEventListenerOptions = { passive: false };
+
+    container.addEventListener('wheel', handleWheel, activeOptions);
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchmove', handleTouchMove, activeOptions);
+    container.addEventListener('touchend', handleTouchEnd);
+    container.addEventListener('touchcancel', handleTouchEnd);
+    container.addEventListener('gesturestart', handleGestureStart);
+    container.addEventListener('gesturechange', handleGestureChange);
+    container.addEventListener('gestureend', handleGestureEnd);
+
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+      container.removeEventListener('touchcancel', handleTouchEnd);
+      container.removeEventListener('gesturestart', handleGestureStart);
+      container.removeEventListener('gesturechange', handleGestureChange);
+      container.removeEventListener('gestureend', handleGestureEnd);
+
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [containerRef, enabled, minScale, maxScale]);
+}
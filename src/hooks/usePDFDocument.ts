@@ -1,7 +1,33 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import type { PDFDocumentProxy, PDFDocumentLoadingTask } from 'pdfjs-dist';
-import type { PDFSource, PDFDocumentInfo, PDFViewerState } from '../PDFViewer.types';
-import { loadDocument, abortLoadingTask, type LoadDocumentOptions } from '../utils/loadDocument';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type {
+  PDFSource,
+  PDFDocumentInfo,
+  PDFViewerState,
+  LoadProgress,
+  PasswordReason,
+  RetryPolicy,
+} from '../PDFViewer.types';
+import { loadDocument, type LoadDocumentOptions } from '../utils/loadDocument';
+import { getDocumentCacheKey, type DocumentCacheHandle } from '../utils/documentCache';
+import { toPDFViewerError, type PDFViewerError } from '../utils/errors';
+import { resolveRetryPolicy, getRetryDelay } from '../utils/retry';
+import { useDocumentCache } from '../context/DocumentCacheContext';
+
+/**
+ * A pending request for the document password
+ */
+export interface PasswordRequest {
+  /** Whether no password was given yet, or the last one was wrong */
+  reason: PasswordReason;
+  /** Try the password, continuing the same load */
+  submit: (password: string) => void;
+  /**
+   * Give up; the load fails with a `PDFViewerError` coded `PASSWORD_REQUIRED`,
+   * or `PASSWORD_INCORRECT` after a wrong password
+   */
+  cancel: () => void;
+}
 
 /**
  * Result of the usePDFDocument hook
@@ -14,9 +40,15 @@ export interface UsePDFDocumentResult {
   /** Document info, if available */
   info: PDFDocumentInfo | null;
   /** Error, if any */
-  error: Error | null;
-  /** Reload the document */
+  error: PDFViewerError | null;
+  /** Download progress while loading, if reported */
+  progress: LoadProgress | null;
+  /** Password request waiting for an answer, when `promptForPassword` is set */
+  passwordRequest: PasswordRequest | null;
+  /** Reload the document, bypassing the document cache */
   reload: () => void;
+  /** Number of the automatic retry in progress, or 0 */
+  retryCount: number;
 }
 
 /**
@@ -28,13 +60,22 @@ export interface UsePDFDocumentOptions extends LoadDocumentOptions {
   /** Callback when loading succeeds */
   onLoadSuccess?: (info: PDFDocumentInfo) => void;
   /** Callback when loading fails */
-  onLoadError?: (error: Error) => void;
+  onLoadError?: (error: PDFViewerError) => void;
+  /** Callback as the document downloads */
+  onLoadProgress?: (progress: LoadProgress) => void;
   /** Callback when password is required */
   onPasswordRequired?: () => void;
+  /** Answer password requests; takes precedence over `promptForPassword` */
+  onPassword?: (reason: PasswordReason) => Promise<string>;
+  /** Expose password requests as `passwordRequest` instead of failing the load */
+  promptForPassword?: boolean;
+  /** Retry failed loads automatically. `true` uses the default policy. */
+  retry?: RetryPolicy | boolean;
 }
 
 /**
- * Hook to load and manage a PDF document
+ * Hook to load and manage a PDF document. Documents come from the document
+ * cache, so instances showing the same source share one load.
  */
 export function usePDFDocument(
   src: PDFSource | undefined,
@@ -43,90 +84,232 @@ export function usePDFDocument(
   const [state, setState] = useState<PDFViewerState>('idle');
   const [document, setDocument] = useState<PDFDocumentProxy | null>(null);
   const [info, setInfo] = useState<PDFDocumentInfo | null>(null);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<PDFViewerError | null>(null);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
 
-  // Keep track of the loading task for cleanup
-  const loadingTaskRef = useRef<PDFDocumentLoadingTask | null>(null);
-  const documentRef = useRef<PDFDocumentProxy | null>(null);
+  const cache = useDocumentCache();
+
+  // Reference to the cached document, released on cleanup
+  const handleRef = useRef<DocumentCacheHandle | null>(null);
 
   // Track version to handle rapid source changes
   const versionRef = useRef(0);
 
+  // Pending automatic retry
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   const {
     onLoadStart,
     onLoadSuccess,
     onLoadError,
+    onLoadProgress,
     onPasswordRequired,
-    ...loadOptions
+    onPassword,
+    promptForPassword = false,
+    retry,
+    httpHeaders,
+    withCredentials,
+    cMapUrl,
+    password,
+    workerSrc,
+    workerPort,
+    requestInterceptor,
   } = options;
 
-  const load = useCallback(() => {
+  // Callbacks are read through a ref so inline handlers do not trigger a reload
+  const callbacksRef = useRef({
+    onLoadStart,
+    onLoadSuccess,
+    onLoadError,
+    onLoadProgress,
+    onPasswordRequired,
+    onPassword,
+    promptForPassword,
+    retry,
+  });
+  callbacksRef.current = {
+    onLoadStart,
+    onLoadSuccess,
+    onLoadError,
+    onLoadProgress,
+    onPasswordRequired,
+    onPassword,
+    promptForPassword,
+    retry,
+  };
+
+  // The interceptor is also read through a ref; requests in flight use the latest one
+  const requestInterceptorRef = useRef(requestInterceptor);
+  requestInterceptorRef.current = requestInterceptor;
+  const hasRequestInterceptor = !!requestInterceptor;
+
+  // Only reload when an option value actually changes
+  const httpHeadersKey = httpHeaders ? JSON.stringify(httpHeaders) : '';
+  const loadOptions = useMemo<LoadDocumentOptions>(
+    () => ({
+      httpHeaders,
+      withCredentials,
+      cMapUrl,
+      password,
+      workerSrc,
+      workerPort,
+      requestInterceptor: hasRequestInterceptor
+        ? (request) => requestInterceptorRef.current?.(request) ?? {}
+        : undefined,
+    }),
+    [httpHeadersKey, withCredentials, cMapUrl, password, workerSrc, workerPort, hasRequestInterceptor]
+  );
+
+  const load = useCallback((fresh = false, attempt = 0): void => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
     if (!src) {
       setState('idle');
       setDocument(null);
       setInfo(null);
       setError(null);
+      setProgress(null);
+      setPasswordRequest(null);
+      setRetryCount(0);
       return;
     }
 
     // Increment version
     const version = ++versionRef.current;
 
-    // Cleanup previous task
-    abortLoadingTask(loadingTaskRef.current);
-    loadingTaskRef.current = null;
+    // Release the previous document
+    handleRef.current?.release();
+    handleRef.current = null;
 
-    // Cleanup previous document
-    if (documentRef.current) {
-      documentRef.current.destroy().catch(() => {});
-      documentRef.current = null;
-    }
+    const { onLoadStart, onLoadSuccess, onLoadError, onPasswordRequired } = callbacksRef.current;
 
-    // Start loading
+    // Start loading; retries continue the same load as far as callers can tell
     setState('loading');
     setError(null);
-    onLoadStart?.();
+    setProgress(null);
+    setPasswordRequest(null);
+    setRetryCount(attempt);
+    if (attempt === 0) {
+      onLoadStart?.();
+    }
+
+    // Set once the password was asked for, so a failure is not reported as a new request
+    let passwordRequested = false;
 
     try {
-      const { task, promise } = loadDocument(src, loadOptions);
-      loadingTaskRef.current = task;
+      // Keyed by the caller's interceptor, not the wrapper each instance makes
+      const key = getDocumentCacheKey(src, {
+        ...loadOptions,
+        requestInterceptor: requestInterceptorRef.current,
+      });
+      if (fresh) {
+        cache.invalidate(key);
+      }
+
+      const handle = cache.acquire(key, (callbacks) =>
+        loadDocument(src, { ...loadOptions, ...callbacks })
+      );
+      handleRef.current = handle;
 
-      promise
+      handle.onProgress((loadProgress) => {
+        if (version !== versionRef.current) return;
+
+        setProgress(loadProgress);
+        callbacksRef.current.onLoadProgress?.(loadProgress);
+      });
+
+      const requestPassword = (reason: PasswordReason): Promise<string> => {
+        const { onPassword, onPasswordRequired } = callbacksRef.current;
+        if (!passwordRequested) {
+          passwordRequested = true;
+          onPasswordRequired?.();
+        }
+
+        if (onPassword) {
+          return onPassword(reason);
+        }
+
+        return new Promise((resolve, reject) => {
+          setPasswordRequest({
+            reason,
+            submit: (value) => {
+              setPasswordRequest(null);
+              resolve(value);
+            },
+            cancel: () => {
+              setPasswordRequest(null);
+              reject(new Error('Password entry was cancelled.'));
+            },
+          });
+        });
+      };
+
+      // Without a way to ask, another viewer of the document may answer, or the load fails
+      const canAskForPassword = !!callbacksRef.current.onPassword || callbacksRef.current.promptForPassword;
+      handle.onPassword(canAskForPassword ? requestPassword : null);
+
+      const fail = (err: unknown) => {
+        // Check if this load is still relevant
+        if (version !== versionRef.current) {
+          return;
+        }
+
+        setPasswordRequest(null);
+
+        const error = toPDFViewerError(err);
+
+        const retryPolicy = resolveRetryPolicy(callbacksRef.current.retry);
+        if (retryPolicy && attempt < retryPolicy.attempts && retryPolicy.shouldRetry(error)) {
+          const delay = getRetryDelay(retryPolicy, attempt + 1);
+          retryTimerRef.current = setTimeout(() => load(false, attempt + 1), delay);
+          return;
+        }
+
+        // Check for password error
+        if (error.code === 'PASSWORD_REQUIRED' && !passwordRequested) {
+          onPasswordRequired?.();
+        }
+
+        setError(error);
+        setState('error');
+        onLoadError?.(error);
+      };
+
+      // A document that fails once loaded, such as on a range that cannot be
+      // read, is closed, so it fails like a load
+      handle.onFailure((err) => {
+        if (version !== versionRef.current) return;
+
+        setDocument(null);
+        setInfo(null);
+        fail(err);
+      });
+
+      handle.promise
         .then(({ document: doc, info: docInfo }) => {
           // Check if this load is still relevant
           if (version !== versionRef.current) {
-            doc.destroy().catch(() => {});
             return;
           }
 
-          documentRef.current = doc;
           setDocument(doc);
           setInfo(docInfo);
           setState('ready');
           onLoadSuccess?.(docInfo);
         })
-        .catch((err: Error) => {
-          // Check if this load is still relevant
-          if (version !== versionRef.current) {
-            return;
-          }
-
-          // Check for password error
-          if (err.name === 'PasswordException') {
-            onPasswordRequired?.();
-          }
-
-          setError(err);
-          setState('error');
-          onLoadError?.(err);
-        });
+        .catch(fail);
     } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
+      const error = toPDFViewerError(err);
       setError(error);
       setState('error');
       onLoadError?.(error);
     }
-  }, [src, loadOptions, onLoadStart, onLoadSuccess, onLoadError, onPasswordRequired]);
+  }, [src, loadOptions, cache]);
 
   // Load document when source changes
   useEffect(() => {
@@ -134,18 +317,17 @@ export function usePDFDocument(
 
     // Cleanup on unmount or source change
     return () => {
-      abortLoadingTask(loadingTaskRef.current);
-      loadingTaskRef.current = null;
-
-      if (documentRef.current) {
-        documentRef.current.destroy().catch(() => {});
-        documentRef.current = null;
+      handleRef.current?.release();
+      handleRef.current = null;
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
       }
     };
   }, [load]);
 
   const reload = useCallback(() => {
-    load();
+    load(true);
   }, [load]);
 
   return {
@@ -153,6 +335,9 @@ export function usePDFDocument(
     document,
     info,
     error,
+    progress,
+    passwordRequest,
     reload,
+    retryCount,
   };
 }
@@ -1,11 +1,26 @@
-import { useRef, useCallback, useImperativeHandle, type RefObject } from 'react';
+import { useRef, useCallback, useImperativeHandle, useLayoutEffect, type RefObject } from 'react';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 import type {
   PDFViewerRef,
   ScaleValue,
+  FitMode,
   RotationValue,
+  PageRotations,
+  ScrollMode,
+  SpreadMode,
+  ViewportPoint,
   FindOptions,
 } from '../PDFViewer.types';
+import { getPageRotation, getSpreadPages } from '../utils/pageLayout';
+import { clampScale, calculateScale, MIN_SCALE, MAX_SCALE } from '../utils/scale';
+import {
+  captureScrollAnchor,
+  restoreScrollAnchor,
+  rotateScrollAnchor,
+  type ScrollAnchor,
+} from '../utils/scrollAnchor';
+import { reportPageError, type PDFViewerError } from '../utils/errors';
+import type { UsePresentationModeResult } from './usePresentationMode';
 
 /**
  * Options for the usePDFViewer hook
@@ -21,20 +36,36 @@ export interface UsePDFViewerOptions {
   totalPages: number;
   /** Current scale */
   currentScale: number;
+  /** Active fit mode, or null after a numeric zoom */
+  currentFitMode: FitMode | null;
   /** Current rotation */
   currentRotation: RotationValue;
+  /** Current rotation of individual pages */
+  currentPageRotations: PageRotations;
+  /** Current scroll mode */
+  scrollMode: ScrollMode;
+  /** How pages are grouped into spreads */
+  spreadMode: SpreadMode;
+  /** Gap between pages in pixels */
+  pageGap: number;
   /** Whether zoom is enabled */
   zoomEnabled: boolean;
   /** Callback to set current page */
   setCurrentPage: (page: number) => void;
-  /** Callback to set current scale */
-  setCurrentScale: (scale: number) => void;
+  /** Callback to set current scale and the fit mode it was computed from */
+  setCurrentScale: (scale: number, fitMode: FitMode | null) => void;
   /** Callback to set current rotation */
   setCurrentRotation: (rotation: RotationValue) => void;
+  /** Callback to set the rotation of a single page */
+  setCurrentPageRotation: (pageNumber: number, rotation: RotationValue) => void;
+  /** Callback to set the scroll mode */
+  setScrollMode: (mode: ScrollMode) => void;
   /** Callback when page changes */
   onPageChange?: (page: number) => void;
   /** Callback when scale changes */
-  onScaleChange?: (scale: number) => void;
+  onScaleChange?: (scale: number, fitMode: FitMode | null) => void;
+  /** Callback when a page needed to fit the scale fails to load */
+  onRenderError?: (error: PDFViewerError) => void;
 }
 
 /**
@@ -47,22 +78,30 @@ export interface UsePDFViewerResult {
   nextPage: () => void;
   /** Go to the previous page */
   previousPage: () => void;
-  /** Zoom in */
-  zoomIn: () => void;
-  /** Zoom out */
-  zoomOut: () => void;
-  /** Set scale */
-  setScale: (scale: ScaleValue) => void;
-  /** Rotate by degrees */
-  rotate: (degrees: 90 | -90) => void;
-  /** Set rotation */
-  setRotation: (degrees: RotationValue) => void;
+  /** Zoom in, keeping the document point under `anchor` in place */
+  zoomIn: (anchor?: ViewportPoint) => void;
+  /** Zoom out, keeping the document point under `anchor` in place */
+  zoomOut: (anchor?: ViewportPoint) => void;
+  /** Set scale, keeping the document point under `anchor` in place */
+  setScale: (scale: ScaleValue, anchor?: ViewportPoint) => void;
+  /** Apply a scale, recomputing fit modes for the current container size, even when zoom is disabled */
+  applyScaleValue: (scale: ScaleValue) => void;
+  /** Rotate by degrees, keeping the document point under `anchor` in place */
+  rotate: (degrees: 90 | -90, anchor?: ViewportPoint) => void;
+  /** Set rotation, keeping the document point under `anchor` in place */
+  setRotation: (degrees: RotationValue, anchor?: ViewportPoint) => void;
+  /** Rotate a single page by degrees, keeping the document point under `anchor` in place */
+  rotatePage: (pageNumber: number, degrees: 90 | -90, anchor?: ViewportPoint) => void;
+  /** Set scroll mode */
+  setScrollMode: (mode: ScrollMode) => void;
   /** Get current page */
   getCurrentPage: () => number;
   /** Get total pages */
   getTotalPages: () => number;
   /** Get current scale */
   getCurrentScale: () => number;
+  /** Get current scroll mode */
+  getScrollMode: () => ScrollMode;
   /** Find text */
   find: (query: string, options?: FindOptions) => void;
   /** Find next */
@@ -75,8 +114,35 @@ export interface UsePDFViewerResult {
 
 // Zoom step factor
 const ZOOM_STEP = 0.25;
-const MIN_SCALE = 0.1;
-const MAX_SCALE = 10;
+
+/**
+ * Scale and rotations that determine the page layout
+ */
+interface LayoutState {
+  scale: number;
+  rotation: RotationValue;
+  pageRotations: PageRotations;
+}
+
+/**
+ * Scroll anchor captured before a scale or rotation change
+ */
+interface PendingAnchor {
+  anchor: ScrollAnchor;
+  /** Rotation of the anchored page when the anchor was captured */
+  rotation: RotationValue;
+  /** Layout the anchor is restored at */
+  target: LayoutState;
+}
+
+function isSameLayout(a: LayoutState, b: LayoutState): boolean {
+  if (a.scale !== b.scale || a.rotation !== b.rotation) return false;
+
+  const pageNumbers = new Set([...Object.keys(a.pageRotations), ...Object.keys(b.pageRotations)]);
+  return Array.from(pageNumbers, Number).every(
+    (pageNumber) => (a.pageRotations[pageNumber] ?? 0) === (b.pageRotations[pageNumber] ?? 0)
+  );
+}
 
 /**
  * Hook to manage PDF viewer interactions
@@ -88,17 +154,118 @@ export function usePDFViewer(options: UsePDFViewerOptions): UsePDFViewerResult {
     currentPage,
     totalPages,
     currentScale,
+    currentFitMode,
     currentRotation,
+    currentPageRotations,
+    scrollMode,
+    spreadMode,
+    pageGap,
     zoomEnabled,
     setCurrentPage,
     setCurrentScale,
     setCurrentRotation,
+    setCurrentPageRotation,
+    setScrollMode,
   } = options;
 
+  const onRenderErrorRef = useRef(options.onRenderError);
+  onRenderErrorRef.current = options.onRenderError;
+
   // Search state
   const searchQueryRef = useRef<string>('');
   const searchOptionsRef = useRef<FindOptions>({});
 
+  // Anchor to restore once the new scale or rotation is laid out
+  const pendingAnchorRef = useRef<PendingAnchor | null>(null);
+  const layoutRef = useRef<LayoutState | null>(null);
+
+  const captureAnchor = useCallback(
+    (point: ViewportPoint | undefined, target: LayoutState) => {
+      // A controlled change comes back through props after the interaction that
+      // requested it; keep the anchor captured by that interaction
+      const pending = pendingAnchorRef.current;
+      if (!point && pending && isSameLayout(pending.target, target)) {
+        return;
+      }
+
+      const container = containerRef.current;
+      const axis = scrollMode === 'horizontal' ? 'horizontal' : 'vertical';
+      const anchor = container ? captureScrollAnchor(container, point, axis) : null;
+      pendingAnchorRef.current = anchor
+        ? {
+            anchor,
+            rotation: getPageRotation(currentRotation, currentPageRotations, anchor.pageNumber),
+            target,
+          }
+        : null;
+    },
+    [containerRef, currentRotation, currentPageRotations, scrollMode]
+  );
+
+  useLayoutEffect(() => {
+    const layout: LayoutState = {
+      scale: currentScale,
+      rotation: currentRotation,
+      pageRotations: currentPageRotations,
+    };
+    const previousLayout = layoutRef.current;
+    layoutRef.current = layout;
+
+    // Page rotations passed as a new but equal object do not change the layout
+    if (previousLayout && isSameLayout(previousLayout, layout)) return;
+
+    const container = containerRef.current;
+    const pending = pendingAnchorRef.current;
+    pendingAnchorRef.current = null;
+
+    if (container && pending && isSameLayout(pending.target, layout)) {
+      const rotation = getPageRotation(
+        currentRotation,
+        currentPageRotations,
+        pending.anchor.pageNumber
+      );
+      restoreScrollAnchor(container, rotateScrollAnchor(pending.anchor, rotation - pending.rotation));
+    }
+  }, [containerRef, currentScale, currentRotation, currentPageRotations]);
+
+  const applyScale = useCallback(
+    (scale: number, fitMode: FitMode | null, anchor?: ViewportPoint) => {
+      const newScale = clampScale(scale);
+      if (newScale === currentScale && fitMode === currentFitMode) return;
+
+      if (newScale !== currentScale) {
+        captureAnchor(anchor, {
+          scale: newScale,
+          rotation: currentRotation,
+          pageRotations: currentPageRotations,
+        });
+      }
+      setCurrentScale(newScale, fitMode);
+    },
+    [
+      currentScale,
+      currentFitMode,
+      currentRotation,
+      currentPageRotations,
+      captureAnchor,
+      setCurrentScale,
+    ]
+  );
+
+  const applyRotation = useCallback(
+    (rotation: RotationValue, anchor?: ViewportPoint) => {
+      if (rotation === currentRotation) return;
+
+      captureAnchor(anchor, {
+        scale: currentScale,
+        rotation,
+        pageRotations: currentPageRotations,
+      });
+      setCurrentRotation(rotation);
+    },
+    [currentScale, currentRotation, currentPageRotations, captureAnchor, setCurrentRotation]
+  );
+
   const goToPage = useCallback(
     (page: number) => {
       if (!document || totalPages === 0) return;
@@ -106,23 +273,37 @@ export function usePDFViewer(options: UsePDFViewerOptions): UsePDFViewerResult {
       const validPage = Math.max(1, Math.min(page, totalPages));
       setCurrentPage(validPage);
 
-      // Scroll to the page element
       const container = containerRef.current;
-      if (container) {
-        const pageElement = container.querySelector(`[data-page-number="${validPage}"]`);
-        if (pageElement) {
-          pageElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-        }
+      if (!container) return;
+
+      // In page mode the new page replaces the current one
+      if (scrollMode === 'page') {
+        container.scrollLeft = 0;
+        container.scrollTop = 0;
+        return;
+      }
+
+      // Scroll to the page element
+      const pageElement = container.querySelector(`[data-page-number="${validPage}"]`);
+      if (pageElement) {
+        pageElement.scrollIntoView(
+          scrollMode === 'horizontal'
+            ? { behavior: 'smooth', block: 'nearest', inline: 'start' }
+            : { behavior: 'smooth', block: 'start' }
+        );
       }
     },
-    [document, totalPages, setCurrentPage, containerRef]
+    [document, totalPages, scrollMode, setCurrentPage, containerRef]
   );
 
   const nextPage = useCallback(() => {
-    if (currentPage < totalPages) {
-      goToPage(currentPage + 1);
+    // Move past the current spread
+    const spread = getSpreadPages(currentPage, totalPages, spreadMode);
+    const next = spread[spread.length - 1] + 1;
+    if (next <= totalPages) {
+      goToPage(next);
     }
-  }, [currentPage, totalPages, goToPage]);
+  }, [currentPage, totalPages, spreadMode, goToPage]);
 
   const previousPage = useCallback(() => {
     if (currentPage > 1) {
@@ -130,80 +311,126 @@ export function usePDFViewer(options: UsePDFViewerOptions): UsePDFViewerResult {
     }
   }, [currentPage, goToPage]);
 
-  const zoomIn = useCallback(() => {
-    if (!zoomEnabled) return;
-    const newScale = Math.min(currentScale + ZOOM_STEP, MAX_SCALE);
-    setCurrentScale(newScale);
-  }, [zoomEnabled, currentScale, setCurrentScale]);
+  const zoomIn = useCallback(
+    (anchor?: ViewportPoint) => {
+      if (!zoomEnabled) return;
+      applyScale(Math.min(currentScale + ZOOM_STEP, MAX_SCALE), null, anchor);
+    },
+    [zoomEnabled, currentScale, applyScale]
+  );
+
+  const zoomOut = useCallback(
+    (anchor?: ViewportPoint) => {
+      if (!zoomEnabled) return;
+      applyScale(Math.max(currentScale - ZOOM_STEP, MIN_SCALE), null, anchor);
+    },
+    [zoomEnabled, currentScale, applyScale]
+  );
 
-  const zoomOut = useCallback(() => {
-    if (!zoomEnabled) return;
-    const newScale = Math.max(currentScale - ZOOM_STEP, MIN_SCALE);
-    setCurrentScale(newScale);
-  }, [zoomEnabled, currentScale, setCurrentScale]);
+  const fitScale = useCallback(
+    (fitMode: FitMode, anchor?: ViewportPoint) => {
+      const container = containerRef.current;
+      if (!container || !document) return;
+
+      // Fit to the first page
+      document.getPage(1).then(
+        (page) => {
+          const viewport = page.getViewport({
+            scale: 1,
+            rotation: getPageRotation(currentRotation, currentPageRotations, 1),
+          });
+          const newScale = calculateScale(
+            fitMode,
+            container.clientWidth,
+            container.clientHeight,
+            viewport.width,
+            viewport.height,
+            spreadMode !== 'none' && totalPages > 1 ? 2 : 1,
+            pageGap
+          );
+
+          applyScale(newScale, fitMode, anchor);
+        },
+        (error: unknown) => reportPageError(error, 1, onRenderErrorRef.current)
+      );
+    },
+    [
+      containerRef,
+      document,
+      totalPages,
+      currentRotation,
+      currentPageRotations,
+      spreadMode,
+      pageGap,
+      applyScale,
+    ]
+  );
 
   const setScale = useCallback(
-    (scale: ScaleValue) => {
+    (scale: ScaleValue, anchor?: ViewportPoint) => {
       if (!zoomEnabled) return;
 
       if (typeof scale === 'number') {
-        const validScale = Math.max(MIN_SCALE, Math.min(scale, MAX_SCALE));
-        setCurrentScale(validScale);
+        applyScale(scale, null, anchor);
       } else {
-        // Handle named scale values
-        const container = containerRef.current;
-        if (!container || !document) return;
-
-        // Get the first page to calculate scale
-        document.getPage(1).then((page) => {
-          const viewport = page.getViewport({ scale: 1, rotation: currentRotation });
-          const containerWidth = container.clientWidth - 40; // padding
-          const containerHeight = container.clientHeight - 40;
-
-          let newScale: number;
-
-          switch (scale) {
-            case 'page-width':
-              newScale = containerWidth / viewport.width;
-              break;
-            case 'page-fit':
-              newScale = Math.min(
-                containerWidth / viewport.width,
-                containerHeight / viewport.height
-              );
-              break;
-            case 'page-actual':
-              newScale = 1;
-              break;
-            case 'auto':
-            default:
-              newScale = Math.min(containerWidth / viewport.width, 1.5);
-              break;
-          }
+        fitScale(scale, anchor);
+      }
+    },
+    [zoomEnabled, applyScale, fitScale]
+  );
 
-          setCurrentScale(Math.max(MIN_SCALE, Math.min(newScale, MAX_SCALE)));
-        });
+  const applyScaleValue = useCallback(
+    (scale: ScaleValue) => {
+      if (typeof scale === 'number') {
+        applyScale(scale, null);
+      } else {
+        fitScale(scale);
       }
     },
-    [zoomEnabled, containerRef, document, currentRotation, setCurrentScale]
+    [applyScale, fitScale]
   );
 
   const rotate = useCallback(
-    (degrees: 90 | -90) => {
+    (degrees: 90 | -90, anchor?: ViewportPoint) => {
       const newRotation = ((currentRotation + degrees + 360) % 360) as RotationValue;
-      setCurrentRotation(newRotation);
+      applyRotation(newRotation, anchor);
     },
-    [currentRotation, setCurrentRotation]
+    [currentRotation, applyRotation]
   );
 
   const setRotation = useCallback(
-    (degrees: RotationValue) => {
-      setCurrentRotation(degrees);
+    (degrees: RotationValue, anchor?: ViewportPoint) => {
+      applyRotation(degrees, anchor);
+    },
+    [applyRotation]
+  );
+
+  const rotatePage = useCallback(
+    (pageNumber: number, degrees: 90 | -90, anchor?: ViewportPoint) => {
+      if (pageNumber < 1 || pageNumber > totalPages) return;
+
+      const pageRotation = currentPageRotations[pageNumber] ?? 0;
+      const newRotation = ((pageRotation + degrees + 360) % 360) as RotationValue;
+
+      captureAnchor(anchor, {
+        scale: currentScale,
+        rotation: currentRotation,
+        pageRotations: { ...currentPageRotations, [pageNumber]: newRotation },
+      });
+      setCurrentPageRotation(pageNumber, newRotation);
     },
-    [setCurrentRotation]
+    [
+      totalPages,
+      currentScale,
+      currentRotation,
+      currentPageRotations,
+      captureAnchor,
+      setCurrentPageRotation,
+    ]
   );
 
   const getCurrentPage = useCallback(() => currentPage, [currentPage]);
+  const getScrollMode = useCallback(() => scrollMode, [scrollMode]);
   const getTotalPages = useCallback(() => totalPages, [totalPages]);
   const getCurrentScale = useCallback(() => currentScale, [currentScale]);
 
@@ -307,11 +534,15 @@ export function usePDFViewer(options: UsePDFViewerOptions): UsePDFViewerResult {
     zoomIn,
     zoomOut,
     setScale,
+    applyScaleValue,
     rotate,
     setRotation,
+    rotatePage,
+    setScrollMode,
     getCurrentPage,
     getTotalPages,
     getCurrentScale,
+    getScrollMode,
     find,
     findNext,
     findPrevious,
@@ -324,7 +555,8 @@ export function usePDFViewer(options: UsePDFViewerOptions): UsePDFViewerResult {
  */
 export function usePDFViewerRef(
   ref: React.ForwardedRef<PDFViewerRef>,
-  viewer: UsePDFViewerResult
+  viewer: UsePDFViewerResult,
+  presentation?: UsePresentationModeResult
 ): void {
   useImperativeHandle(
     ref,
@@ -337,14 +569,20 @@ export function usePDFViewerRef(
       setScale: viewer.setScale,
       rotate: viewer.rotate,
       setRotation: viewer.setRotation,
+      rotatePage: viewer.rotatePage,
+      setScrollMode: viewer.setScrollMode,
       getCurrentPage: viewer.getCurrentPage,
       getTotalPages: viewer.getTotalPages,
       getCurrentScale: viewer.getCurrentScale,
+      getScrollMode: viewer.getScrollMode,
+      enterPresentationMode: () => presentation?.enter(),
+      exitPresentationMode: () => presentation?.exit(),
+      isPresentationMode: () => presentation?.isActive ?? false,
       find: viewer.find,
       findNext: viewer.findNext,
       findPrevious: viewer.findPrevious,
       clearFind: viewer.clearFind,
     }),
-    [viewer]
+    [viewer, presentation]
   );
 }
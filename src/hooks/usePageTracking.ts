@@ -1,4 +1,5 @@
 import { useEffect, useCallback, useRef, type RefObject } from 'react';
+import { getPageElements, findVisiblePageRange, type ScrollAxis } from '../utils/pageLayout';
 
 /**
  * Options for the usePageTracking hook
@@ -14,6 +15,8 @@ export interface UsePageTrackingOptions {
   threshold?: number;
   /** Debounce time in milliseconds */
   debounceMs?: number;
+  /** Axis the pages are laid out along */
+  axis?: ScrollAxis;
 }
 
 /**
@@ -26,6 +29,7 @@ export function usePageTracking(options: UsePageTrackingOptions): void {
     onPageChange,
     threshold = 0.5,
     debounceMs = 100,
+    axis = 'vertical',
   } = options;
 
   // Track the last reported page to avoid duplicate calls
@@ -36,30 +40,34 @@ export function usePageTracking(options: UsePageTrackingOptions): void {
     const container = containerRef.current;
     if (!container || totalPages === 0) return;
 
+    // Visible area of the container, in viewport coordinates. Pages may be laid
+    // out in a column, a row or a grid, so visibility is measured by area.
     const containerRect = container.getBoundingClientRect();
-    const containerTop = container.scrollTop;
-    const containerHeight = container.clientHeight;
-    const containerCenter = containerTop + containerHeight / 2;
+    const viewLeft = containerRect.left;
+    const viewTop = containerRect.top;
+    const viewRight = viewLeft + container.clientWidth;
+    const viewBottom = viewTop + container.clientHeight;
+    const centerX = (viewLeft + viewRight) / 2;
+    const centerY = (viewTop + viewBottom) / 2;
 
     let mostVisiblePage = 1;
     let maxVisibility = 0;
 
-    // Find all page elements
-    const pageElements = container.querySelectorAll('[data-page-number]');
+    // Only measure the pages in view, so long documents stay cheap to scroll
+    const pageElements = getPageElements(container);
+    const range = findVisiblePageRange(container, pageElements, 0, axis);
+    if (!range) return;
 
-    pageElements.forEach((element) => {
+    for (let index = range.start; index <= range.end; index++) {
+      const element = pageElements[index];
       const pageNumber = parseInt(element.getAttribute('data-page-number') || '1', 10);
       const rect = element.getBoundingClientRect();
-
-      // Calculate the element's position relative to the container
-      const elementTop = rect.top - containerRect.top + containerTop;
-      const elementBottom = elementTop + rect.height;
+      if (rect.width === 0 || rect.height === 0) continue;
 
       // Calculate visibility
-      const visibleTop = Math.max(elementTop, containerTop);
-      const visibleBottom = Math.min(elementBottom, containerTop + containerHeight);
-      const visibleHeight = Math.max(0, visibleBottom - visibleTop);
-      const visibility = visibleHeight / rect.height;
+      const visibleWidth = Math.max(0, Math.min(rect.right, viewRight) - Math.max(rect.left, viewLeft));
+      const visibleHeight = Math.max(0, Math.min(rect.bottom, viewBottom) - Math.max(rect.top, viewTop));
+      const visibility = (visibleWidth * visibleHeight) / (rect.width * rect.height);
 
       // Check if this page is the most visible
       if (visibility > maxVisibility) {
@@ -68,18 +76,23 @@ export function usePageTracking(options: UsePageTrackingOptions): void {
       }
 
       // Also check if the page contains the center of the viewport
-      if (elementTop <= containerCenter && elementBottom >= containerCenter) {
+      if (
+        rect.left <= centerX &&
+        rect.right >= centerX &&
+        rect.top <= centerY &&
+        rect.bottom >= centerY
+      ) {
         mostVisiblePage = pageNumber;
         maxVisibility = 1; // Highest priority
       }
-    });
+    }
 
     // Only report if the page changed and meets threshold
     if (maxVisibility >= threshold && mostVisiblePage !== lastPageRef.current) {
       lastPageRef.current = mostVisiblePage;
       onPageChange(mostVisiblePage);
     }
-  }, [containerRef, totalPages, onPageChange, threshold]);
+  }, [containerRef, totalPages, onPageChange, threshold, axis]);
 
   const handleScroll = useCallback(() => {
     // Debounce the page calculation
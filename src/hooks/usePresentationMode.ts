@@ -0,0 +1,208 @@
+import { useEffect, useCallback, useRef, useState, type RefObject } from 'react';
+
+/**
+ * Options for the usePresentationMode hook
+ */
+export interface UsePresentationModeOptions {
+  /** Reference to the container element shown fullscreen */
+  containerRef: RefObject<HTMLElement>;
+  /** Callback when presentation mode is entered or exited */
+  onChange?: (active: boolean) => void;
+  /** Time in milliseconds without mouse movement before the cursor is hidden */
+  cursorHideDelay?: number;
+}
+
+/**
+ * Result of the usePresentationMode hook
+ */
+export interface UsePresentationModeResult {
+  /** Whether presentation mode is active */
+  isActive: boolean;
+  /** Whether the container covers the viewport because fullscreen is unavailable */
+  isFallback: boolean;
+  /** Whether the cursor should be hidden */
+  cursorHidden: boolean;
+  /** Enter presentation mode */
+  enter: () => void;
+  /** Exit presentation mode */
+  exit: () => void;
+}
+
+// Prefixed Fullscreen API, still the only one in older Safari
+interface FullscreenElement extends HTMLElement {
+  webkitRequestFullscreen?: () => void;
+}
+
+interface FullscreenDocument extends Document {
+  webkitFullscreenElement?: Element | null;
+  webkitExitFullscreen?: () => void;
+}
+
+type PresentationState = 'fullscreen' | 'fallback' | null;
+
+const CURSOR_HIDE_DELAY = 2000;
+
+function getFullscreenElement(): Element | null {
+  const doc = window.document as FullscreenDocument;
+  return doc.fullscreenElement ?? doc.webkitFullscreenElement ?? null;
+}
+
+/**
+ * Request fullscreen for an element, or return null when the browser has no
+ * element fullscreen (e.g. Safari on iPhone)
+ */
+function requestFullscreen(element: FullscreenElement): Promise<void> | null {
+  if (typeof element.requestFullscreen === 'function') {
+    return element.requestFullscreen();
+  }
+  if (typeof element.webkitRequestFullscreen === 'function') {
+    element.webkitRequestFullscreen();
+    return Promise.resolve();
+  }
+  return null;
+}
+
+function exitFullscreen(): void {
+  const doc = window.document as FullscreenDocument;
+  if (typeof doc.exitFullscreen === 'function') {
+    doc.exitFullscreen().catch(() => {
+      // Already left fullscreen
+    });
+  } else {
+    doc.webkitExitFullscreen?.();
+  }
+}
+
+/**
+ * Hook to show the container fullscreen for presenting. Falls back to
+ * covering the viewport when the Fullscreen API is unavailable or denied.
+ */
+export function usePresentationMode(
+  options: UsePresentationModeOptions
+): UsePresentationModeResult {
+  const { containerRef, onChange, cursorHideDelay = CURSOR_HIDE_DELAY } = options;
+
+  const [presentation, setPresentation] = useState<PresentationState>(null);
+  const [cursorHidden, setCursorHidden] = useState(false);
+
+  const presentationRef = useRef<PresentationState>(null);
+  presentationRef.current = presentation;
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const isActive = presentation !== null;
+
+  const enter = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || presentationRef.current) return;
+
+    const request = requestFullscreen(container);
+    if (request) {
+      // Denied, e.g. when not called from a user gesture
+      request.catch(() => {
+        setPresentation((prev) => prev ?? 'fallback');
+      });
+    } else {
+      setPresentation('fallback');
+    }
+
+    // Keyboard navigation needs focus inside the container
+    container.focus({ preventScroll: true });
+  }, [containerRef]);
+
+  const exit = useCallback(() => {
+    const container = containerRef.current;
+    if (container && getFullscreenElement() === container) {
+      exitFullscreen();
+    } else {
+      setPresentation(null);
+    }
+  }, [containerRef]);
+
+  // Track fullscreen changes, including the browser's own exit on Escape
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      const container = containerRef.current;
+      if (container && getFullscreenElement() === container) {
+        setPresentation('fullscreen');
+      } else {
+        setPresentation((prev) => (prev === 'fullscreen' ? null : prev));
+      }
+    };
+
+    window.document.addEventListener('fullscreenchange', handleFullscreenChange);
+    window.document.addEventListener('webkitfullscreenchange', handleFullscreenChange);
+
+    return () => {
+      window.document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.document.removeEventListener('webkitfullscreenchange', handleFullscreenChange);
+    };
+  }, [containerRef]);
+
+  // Escape exits the fallback, as the browser does for fullscreen
+  useEffect(() => {
+    if (presentation !== 'fallback') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setPresentation(null);
+      }
+    };
+
+    window.document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [presentation]);
+
+  // Report changes, but not the initial state
+  const wasActiveRef = useRef(isActive);
+  useEffect(() => {
+    if (wasActiveRef.current === isActive) return;
+    wasActiveRef.current = isActive;
+    onChangeRef.current?.(isActive);
+  }, [isActive]);
+
+  // Hide the cursor while the mouse is idle
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isActive || !container) {
+      setCursorHidden(false);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const showCursor = () => {
+      setCursorHidden(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setCursorHidden(true), cursorHideDelay);
+    };
+
+    showCursor();
+    container.addEventListener('mousemove', showCursor, { passive: true });
+
+    return () => {
+      clearTimeout(timer);
+      container.removeEventListener('mousemove', showCursor);
+    };
+  }, [containerRef, isActive, cursorHideDelay]);
+
+  // Leave fullscreen when unmounted
+  useEffect(() => {
+    return () => {
+      if (presentationRef.current === 'fullscreen') {
+        exitFullscreen();
+      }
+    };
+  }, []);
+
+  return {
+    isActive,
+    isFallback: presentation === 'fallback',
+    cursorHidden,
+    enter,
+    exit,
+  };
+}
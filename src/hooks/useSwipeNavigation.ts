@@ -0,0 +1,156 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+/**
+ * Direction of a page swipe
+ */
+export type SwipeDirection = 'next' | 'previous';
+
+/**
+ * Options for the useSwipeNavigation hook
+ */
+export interface UseSwipeNavigationOptions {
+  /** Reference to the container element */
+  containerRef: RefObject<HTMLElement>;
+  /** Whether swipes change pages */
+  enabled: boolean;
+  /** Callback when a swipe is recognized */
+  onSwipe: (direction: SwipeDirection) => void;
+  /** Callback with the horizontal drag offset while swiping, and 0 once the drag ends */
+  onSwipeMove?: (offset: number) => void;
+  /** Minimum horizontal distance in pixels */
+  minDistance?: number;
+  /** Minimum velocity in pixels per millisecond for a short flick */
+  minVelocity?: number;
+}
+
+// Distance a flick must travel before its velocity counts
+const MIN_FLICK_DISTANCE = 10;
+
+// Horizontal movement must dominate vertical movement by this factor
+const DIRECTION_RATIO = 1.5;
+
+interface SwipeStart {
+  x: number;
+  y: number;
+  time: number;
+  canSwipeNext: boolean;
+  canSwipePrevious: boolean;
+}
+
+function hasSelection(): boolean {
+  const selection = window.getSelection();
+  return !!selection && !selection.isCollapsed;
+}
+
+/**
+ * Hook to turn horizontal one-finger swipes into page changes. Pinches,
+ * text selection and scrolling a page wider than the container are left
+ * alone.
+ */
+export function useSwipeNavigation(options: UseSwipeNavigationOptions): void {
+  const {
+    containerRef,
+    enabled,
+    onSwipe,
+    onSwipeMove,
+    minDistance = 50,
+    minVelocity = 0.3,
+  } = options;
+
+  const onSwipeRef = useRef(onSwipe);
+  onSwipeRef.current = onSwipe;
+  const onSwipeMoveRef = useRef(onSwipeMove);
+  onSwipeMoveRef.current = onSwipeMove;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+
+    let start: SwipeStart | null = null;
+    let dragging = false;
+
+    const cancel = () => {
+      start = null;
+      if (dragging) {
+        dragging = false;
+        onSwipeMoveRef.current?.(0);
+      }
+    };
+
+    // Offset in a direction that can change pages, or 0
+    const getSwipeOffset = (dx: number, dy: number): number => {
+      if (!start || Math.abs(dx) <= Math.abs(dy) * DIRECTION_RATIO) return 0;
+      if (dx < 0 && !start.canSwipeNext) return 0;
+      if (dx > 0 && !start.canSwipePrevious) return 0;
+      return dx;
+    };
+
+    const handleTouchStart = (event: TouchEvent) => {
+      // A second finger makes this a pinch, and an existing selection is
+      // being adjusted with its handles
+      if (event.touches.length !== 1 || hasSelection()) {
+        cancel();
+        return;
+      }
+
+      // A page wider than the container scrolls to its edge before swiping
+      const maxScrollLeft = container.scrollWidth - container.clientWidth;
+      start = {
+        x: event.touches[0].clientX,
+        y: event.touches[0].clientY,
+        time: event.timeStamp,
+        canSwipeNext: container.scrollLeft >= maxScrollLeft - 1,
+        canSwipePrevious: container.scrollLeft <= 0,
+      };
+    };
+
+    const handleTouchMove = (event: TouchEvent) => {
+      if (!start) return;
+      if (event.touches.length !== 1) {
+        cancel();
+        return;
+      }
+
+      const touch = event.touches[0];
+      const offset = getSwipeOffset(touch.clientX - start.x, touch.clientY - start.y);
+      if (offset !== 0 || dragging) {
+        dragging = offset !== 0;
+        onSwipeMoveRef.current?.(offset);
+      }
+    };
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (!start || event.changedTouches.length === 0) return;
+
+      const touch = event.changedTouches[0];
+      const offset = getSwipeOffset(touch.clientX - start.x, touch.clientY - start.y);
+      const distance = Math.abs(offset);
+      const velocity = distance / Math.max(1, event.timeStamp - start.time);
+
+      // Dragging across text selects it instead
+      if (
+        distance > 0 &&
+        !hasSelection() &&
+        (distance >= minDistance || (distance >= MIN_FLICK_DISTANCE && velocity >= minVelocity))
+      ) {
+        onSwipeRef.current(offset < 0 ? 'next' : 'previous');
+      }
+
+      // Reported after the swipe so the drag can end in a page change
+      cancel();
+    };
+
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchmove', handleTouchMove, { passive: true });
+    container.addEventListener('touchend', handleTouchEnd, { passive: true });
+    container.addEventListener('touchcancel', cancel, { passive: true });
+
+    return () => {
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+      container.removeEventListener('touchcancel', cancel);
+      cancel();
+    };
+  }, [containerRef, enabled, minDistance, minVelocity]);
+}
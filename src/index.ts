@@ -4,8 +4,24 @@ export { PDFViewer } from './PDFViewer';
 // Types
 export type {
   PDFSource,
+  PDFRangeSource,
+  PDFSourceFactory,
   ScaleValue,
+  FitMode,
   RotationValue,
+  PageRotations,
+  ScrollMode,
+  SpreadMode,
+  ViewportPoint,
+  RenderBudget,
+  RenderPriority,
+  RenderTiming,
+  LoadProgress,
+  PasswordReason,
+  PDFViewerErrorCode,
+  RetryPolicy,
+  PDFRequest,
+  RequestInterceptor,
   FindOptions,
   PDFDocumentInfo,
   PDFViewerRef,
@@ -20,15 +36,25 @@ export {
   usePDFViewer,
   usePDFViewerRef,
   useZoomPrevention,
+  useGestureZoom,
   usePageTracking,
+  usePresentationMode,
+  useSwipeNavigation,
 } from './hooks';
 export type {
   UsePDFDocumentResult,
   UsePDFDocumentOptions,
+  PasswordRequest,
   UsePDFViewerOptions,
   UsePDFViewerResult,
   UseZoomPreventionOptions,
+  UseGestureZoomOptions,
+  ZoomOrigin,
   UsePageTrackingOptions,
+  UsePresentationModeOptions,
+  UsePresentationModeResult,
+  UseSwipeNavigationOptions,
+  SwipeDirection,
 } from './hooks';
 
 // Context (for advanced usage)
@@ -36,9 +62,12 @@ export {
   PDFViewerContext,
   PDFViewerProvider,
   usePDFViewerContext,
+  PDFDocumentCacheProvider,
+  useDocumentCache,
 } from './context';
 export type {
   PDFViewerProviderProps,
+  PDFDocumentCacheProviderProps,
 } from './context';
 
 // Utilities (for advanced usage)
@@ -46,10 +75,24 @@ export {
   initializeWorker,
   parseSource,
   loadDocument,
+  preloadDocument,
+  createDocumentCache,
+  getDocumentCacheKey,
+  PDFViewerError,
 } from './utils';
 export type {
   SourceType,
   ParsedSource,
   LoadDocumentOptions,
   LoadDocumentResult,
+  DocumentLoadingTask,
+  DocumentCache,
+  DocumentCacheHandle,
+  DocumentLoad,
+  DocumentLoader,
+  DocumentLoadCallbacks,
+  PreloadDocumentOptions,
+  PreloadedDocument,
+  PDFViewerErrorOptions,
+  PDFWorkerOptions,
 } from './utils';
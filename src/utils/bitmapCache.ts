@@ -0,0 +1,88 @@
+import type { RotationValue } from '../PDFViewer.types';
+
+/**
+ * Low-resolution snapshot of a rendered page
+ */
+export interface PageBitmap {
+  bitmap: ImageBitmap;
+  rotation: RotationValue;
+}
+
+/**
+ * Small LRU cache of page snapshots, used as previews while pages re-render
+ */
+export interface BitmapCache {
+  /** Get the snapshot of a page, if cached */
+  get(pageNumber: number): PageBitmap | undefined;
+  /** Snapshot a rendered canvas */
+  store(pageNumber: number, canvas: HTMLCanvasElement, rotation: RotationValue): void;
+  /** Release every snapshot */
+  clear(): void;
+}
+
+/**
+ * Pixel limit of a snapshot; previews are shown stretched, so they stay small
+ */
+const SNAPSHOT_MAX_PIXELS = 512 * 512;
+
+/**
+ * Create a bitmap cache holding at most `maxEntries` snapshots
+ */
+export function createBitmapCache(maxEntries = 8): BitmapCache {
+  const entries = new Map<number, PageBitmap>();
+  // Incremented on clear so late snapshots of a previous document are dropped
+  let generation = 0;
+
+  const remove = (pageNumber: number) => {
+    entries.get(pageNumber)?.bitmap.close();
+    entries.delete(pageNumber);
+  };
+
+  return {
+    get(pageNumber) {
+      const entry = entries.get(pageNumber);
+      if (entry) {
+        // Move to the most recently used position
+        entries.delete(pageNumber);
+        entries.set(pageNumber, entry);
+      }
+      return entry;
+    },
+
+    store(pageNumber, canvas, rotation) {
+      if (typeof createImageBitmap !== 'function' || canvas.width === 0 || canvas.height === 0) {
+        return;
+      }
+
+      const factor = Math.min(1, Math.sqrt(SNAPSHOT_MAX_PIXELS / (canvas.width * canvas.height)));
+      const storedGeneration = generation;
+
+      createImageBitmap(canvas, {
+        resizeWidth: Math.max(1, Math.floor(canvas.width * factor)),
+        resizeHeight: Math.max(1, Math.floor(canvas.height * factor)),
+      }).then(
+        (bitmap) => {
+          if (storedGeneration !== generation) {
+            bitmap.close();
+            return;
+          }
+
+          remove(pageNumber);
+          entries.set(pageNumber, { bitmap, rotation });
+
+          while (entries.size > maxEntries) {
+            remove(entries.keys().next().value as number);
+          }
+        },
+        () => {
+          // Snapshots are best effort
+        }
+      );
+    },
+
+    clear() {
+      generation++;
+      Array.from(entries.keys()).forEach(remove);
+    },
+  };
+}
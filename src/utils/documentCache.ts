@@ -0,0 +1,414 @@
+import type { PDFSource, LoadProgress, PasswordReason } from '../PDFViewer.types';
+import { parseSource } from './parseSource';
+import { abortLoadingTask, type loadDocument, type LoadDocumentOptions, type LoadDocumentResult } from './loadDocument';
+
+/**
+ * A document load started by `loadDocument`
+ */
+export type DocumentLoad = ReturnType<typeof loadDocument>;
+
+/**
+ * Callbacks a load reports to, shared by every handle to it
+ */
+export interface DocumentLoadCallbacks {
+  /** Report download progress */
+  onProgress: (progress: LoadProgress) => void;
+  /** Ask for a password */
+  onPassword: (reason: PasswordReason) => Promise<string>;
+}
+
+/**
+ * Starts a document load, wiring it to the given callbacks
+ */
+export type DocumentLoader = (callbacks: DocumentLoadCallbacks) => DocumentLoad;
+
+/**
+ * A reference to a cached document. The document stays alive until every
+ * handle to it is released.
+ */
+export interface DocumentCacheHandle {
+  /** Resolves with the shared document and its info */
+  promise: Promise<LoadDocumentResult>;
+  /** Listen to the download progress, starting with the latest progress if any. Replaces the previous listener. */
+  onProgress(listener: ((progress: LoadProgress) => void) | null): void;
+  /** Answer password requests of the load. Replaces the previous handler. */
+  onPassword(handler: ((reason: PasswordReason) => Promise<string>) | null): void;
+  /**
+   * Listen for the document failing after it loaded, such as when a range
+   * cannot be read. It is then no longer cached. Replaces the previous listener.
+   */
+  onFailure(listener: ((error: unknown) => void) | null): void;
+  /** Release this reference; later calls are ignored */
+  release(): void;
+}
+
+/**
+ * Reference-counted cache of loaded documents. Documents in use are never
+ * evicted; unused documents are kept up to the size limit, least recently
+ * used first out. Keys with the same fingerprint share one document if they
+ * agree up to their first line break, which in `getDocumentCacheKey` keys
+ * holds the load options.
+ */
+export interface DocumentCache {
+  /** Get a handle to the document for `key`, calling `load` if it is not cached */
+  acquire(key: string, load: DocumentLoader): DocumentCacheHandle;
+  /** Like `acquire`, but the handle is released by the next `acquire` of the same key */
+  preload(key: string, load: DocumentLoader): DocumentCacheHandle;
+  /** Stop serving the document for `key`; it is destroyed once released */
+  invalidate(key: string): void;
+  /** Change the number of documents kept */
+  setMaxEntries(maxEntries: number): void;
+  /** Destroy every unused document */
+  clear(): void;
+}
+
+/**
+ * A loaded document, shared by the entries whose loads had the same fingerprint
+ */
+interface DocumentResource {
+  result: LoadDocumentResult;
+  fingerprint: string;
+  entries: number;
+}
+
+interface CacheEntry {
+  load: DocumentLoad;
+  promise: Promise<LoadDocumentResult>;
+  resource: DocumentResource | null;
+  refCount: number;
+  preloads: Set<DocumentCacheHandle>;
+  progress: LoadProgress | null;
+  progressListeners: Set<(progress: LoadProgress) => void>;
+  passwordHandlers: Set<(reason: PasswordReason) => Promise<string>>;
+  failureListeners: Set<(error: unknown) => void>;
+  cached: boolean;
+  destroyed: boolean;
+}
+
+/**
+ * Create a document cache keeping at most `maxEntries` documents, counting
+ * those in use. With 0, documents are destroyed as soon as they are unused.
+ */
+export function createDocumentCache(maxEntries = 0): DocumentCache {
+  // Ordered from least to most recently used
+  const entries = new Map<string, CacheEntry>();
+  const resources = new Map<string, DocumentResource>();
+  let limit = maxEntries;
+  let trimScheduled = false;
+
+  const destroyEntry = (entry: CacheEntry) => {
+    entry.destroyed = true;
+
+    const resource = entry.resource;
+    if (!resource) {
+      // Still loading
+      abortLoadingTask(entry.load.task);
+      return;
+    }
+
+    resource.entries--;
+    if (resource.entries === 0) {
+      if (resources.get(resource.fingerprint) === resource) {
+        resources.delete(resource.fingerprint);
+      }
+      resource.result.document.destroy().catch(() => {});
+    }
+  };
+
+  const trim = () => {
+    trimScheduled = false;
+
+    let excess = entries.size - limit;
+    for (const [key, entry] of Array.from(entries)) {
+      if (excess <= 0) break;
+      if (entry.refCount > 0) continue;
+
+      entries.delete(key);
+      entry.cached = false;
+      destroyEntry(entry);
+      excess--;
+    }
+  };
+
+  // Deferred so a document released and acquired again in the same task,
+  // such as on a React Strict Mode remount, is not reloaded
+  const scheduleTrim = () => {
+    if (trimScheduled) return;
+    trimScheduled = true;
+    Promise.resolve().then(trim);
+  };
+
+  const remove = (key: string, entry: CacheEntry) => {
+    if (entries.get(key) !== entry) return;
+
+    entries.delete(key);
+    entry.cached = false;
+    if (entry.refCount === 0) {
+      destroyEntry(entry);
+    }
+  };
+
+  // A document that failed after loading is dead for every entry sharing it
+  const failEntry = (entry: CacheEntry, error: unknown) => {
+    const resource = entry.resource;
+    // Failures before loading reject the load itself
+    if (!resource) return;
+
+    if (resources.get(resource.fingerprint) === resource) {
+      resources.delete(resource.fingerprint);
+    }
+
+    const failed = [entry];
+    Array.from(entries).forEach(([key, other]) => {
+      if (other.resource !== resource) return;
+      remove(key, other);
+      if (other !== entry) failed.push(other);
+    });
+    failed.forEach((failedEntry) => {
+      failedEntry.failureListeners.forEach((listener) => listener(error));
+    });
+  };
+
+  const createEntry = (key: string, loader: DocumentLoader): CacheEntry => {
+    const load = loader({
+      // Every handle sharing the load sees its progress
+      onProgress(progress) {
+        entry.progress = progress;
+        entry.progressListeners.forEach((listener) => listener(progress));
+      },
+      // The handle that has waited longest answers password requests
+      onPassword(reason) {
+        const handler = entry.passwordHandlers.values().next().value;
+        return handler ? handler(reason) : Promise.reject(new Error('No password given.'));
+      },
+    });
+
+    const entry: CacheEntry = {
+      load,
+      promise: load.promise,
+      resource: null,
+      refCount: 0,
+      preloads: new Set(),
+      progress: null,
+      progressListeners: new Set(),
+      passwordHandlers: new Set(),
+      failureListeners: new Set(),
+      cached: true,
+      destroyed: false,
+    };
+
+    load.failed?.catch((error: unknown) => failEntry(entry, error));
+
+    entry.promise = load.promise.then(
+      (result) => {
+        if (entry.destroyed) {
+          result.document.destroy().catch(() => {});
+          return result;
+        }
+
+        // The same file from another source, loaded with the same options,
+        // shares the loaded document
+        const fingerprints = result.info.fingerprints.join(':');
+        const options = key.slice(0, key.indexOf('\n') + 1);
+        const fingerprint = fingerprints ? `${options}${fingerprints}` : '';
+        let resource = fingerprint ? resources.get(fingerprint) : undefined;
+        if (resource) {
+          result.document.destroy().catch(() => {});
+        } else {
+          resource = { result, fingerprint, entries: 0 };
+          if (fingerprint) {
+            resources.set(fingerprint, resource);
+          }
+        }
+
+        resource.entries++;
+        entry.resource = resource;
+        return resource.result;
+      },
+      (error: unknown) => {
+        // Failed loads are not cached, so the next acquire retries
+        remove(key, entry);
+        throw error;
+      }
+    );
+
+    return entry;
+  };
+
+  const acquireEntry = (key: string, load: DocumentLoader) => {
+    let entry = entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      entries.delete(key);
+    } else {
+      entry = createEntry(key, load);
+    }
+    entries.set(key, entry);
+    entry.refCount++;
+
+    const acquired = entry;
+    let released = false;
+    let progressListener: ((progress: LoadProgress) => void) | null = null;
+    let passwordHandler: ((reason: PasswordReason) => Promise<string>) | null = null;
+    let failureListener: ((error: unknown) => void) | null = null;
+
+    const handle: DocumentCacheHandle = {
+      promise: acquired.promise,
+      onProgress(listener) {
+        if (progressListener) {
+          acquired.progressListeners.delete(progressListener);
+        }
+        // Wrapped so handles passing the same function do not share a registration
+        progressListener = listener && !released ? (progress) => listener(progress) : null;
+        if (!progressListener) return;
+
+        acquired.progressListeners.add(progressListener);
+        if (acquired.progress) {
+          progressListener(acquired.progress);
+        }
+      },
+      onPassword(handler) {
+        if (passwordHandler) {
+          acquired.passwordHandlers.delete(passwordHandler);
+        }
+        passwordHandler = handler && !released ? (reason) => handler(reason) : null;
+        if (passwordHandler) {
+          acquired.passwordHandlers.add(passwordHandler);
+        }
+      },
+      onFailure(listener) {
+        if (failureListener) {
+          acquired.failureListeners.delete(failureListener);
+        }
+        failureListener = listener && !released ? (error) => listener(error) : null;
+        if (failureListener) {
+          acquired.failureListeners.add(failureListener);
+        }
+      },
+      release() {
+        if (released) return;
+        released = true;
+
+        if (progressListener) {
+          acquired.progressListeners.delete(progressListener);
+          progressListener = null;
+        }
+        if (passwordHandler) {
+          acquired.passwordHandlers.delete(passwordHandler);
+          passwordHandler = null;
+        }
+        if (failureListener) {
+          acquired.failureListeners.delete(failureListener);
+          failureListener = null;
+        }
+        acquired.preloads.delete(handle);
+        acquired.refCount--;
+        if (acquired.refCount > 0) return;
+
+        if (acquired.cached) {
+          scheduleTrim();
+        } else {
+          destroyEntry(acquired);
+        }
+      },
+    };
+
+    return { entry: acquired, handle };
+  };
+
+  return {
+    acquire(key, load) {
+      const { entry, handle } = acquireEntry(key, load);
+
+      // The document is now held by a viewer
+      Array.from(entry.preloads).forEach((preload) => preload.release());
+
+      return handle;
+    },
+
+    preload(key, load) {
+      const { entry, handle } = acquireEntry(key, load);
+      entry.preloads.add(handle);
+      return handle;
+    },
+
+    invalidate(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        remove(key, entry);
+      }
+    },
+
+    setMaxEntries(nextMaxEntries) {
+      limit = nextMaxEntries;
+      scheduleTrim();
+    },
+
+    clear() {
+      Array.from(entries).forEach(([key, entry]) => {
+        if (entry.refCount === 0) {
+          remove(key, entry);
+        }
+      });
+    },
+  };
+}
+
+// Sources that cannot be compared without reading them, and request
+// interceptors, are keyed by identity
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+function getObjectId(value: object): number {
+  let id = objectIds.get(value);
+  if (!id) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return id;
+}
+
+/**
+ * Build the cache key for a source: the resolved URL, the base64 string
+ * itself, or the identity of binary data's buffer or of a source that must be
+ * read first. Nothing is hashed, so no two documents share a key and keys are
+ * cheap to build for large data; the same bytes in another buffer are parsed
+ * again and then share the document by fingerprint. Options that change what
+ * is loaded or how it renders, the password included, come first, on a line
+ * of their own. The request interceptor counts by identity, so callers keep
+ * the same function to share loads.
+ */
+export function getDocumentCacheKey(src: PDFSource, options: LoadDocumentOptions = {}): string {
+  const parsed = parseSource(src);
+
+  let sourceKey: string;
+  if (parsed.type === 'url') {
+    sourceKey = `url:${new URL(parsed.data as string, window.location.href).href}`;
+  } else if (parsed.type === 'base64') {
+    sourceKey = `data:${parsed.data as string}`;
+  } else if (parsed.type === 'binary') {
+    const bytes = parsed.data as Uint8Array;
+    sourceKey = `binary:${getObjectId(bytes.buffer)}:${bytes.byteOffset}:${bytes.byteLength}`;
+  } else {
+    sourceKey = `${parsed.type}:${getObjectId(parsed.data as object)}`;
+  }
+
+  const { httpHeaders, withCredentials = false, cMapUrl = '', requestInterceptor } = options;
+  const interceptorId = requestInterceptor ? getObjectId(requestInterceptor) : null;
+  const optionsKey = JSON.stringify([
+    httpHeaders ?? null,
+    withCredentials,
+    cMapUrl,
+    options.password ?? null,
+    interceptorId,
+  ]);
+  // The source goes last, outside the JSON, so large base64 strings are not
+  // copied to escape them. JSON escapes line breaks, so the first one ends the options.
+  return `${optionsKey}\n${sourceKey}`;
+}
+
+/**
+ * Cache used outside a PDFDocumentCacheProvider. Viewers of the same document
+ * share it while mounted, but unused documents are not kept.
+ */
+export const defaultDocumentCache = createDocumentCache(0);
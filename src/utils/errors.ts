@@ -0,0 +1,124 @@
+import type { PDFViewerErrorCode } from '../PDFViewer.types';
+
+/**
+ * Details of a PDFViewerError
+ */
+export interface PDFViewerErrorOptions {
+  /** HTTP status of the failed request */
+  status?: number;
+  /** Page that failed to render */
+  pageNumber?: number;
+  /** The original error */
+  cause?: unknown;
+}
+
+/**
+ * Error reported by the viewer. Branch on `code`; the message is meant for logs.
+ */
+export class PDFViewerError extends Error {
+  /** Stable kind of failure */
+  readonly code: PDFViewerErrorCode;
+  /** HTTP status, for HTTP_STATUS errors */
+  readonly status?: number;
+  /** Page that failed to render, for RENDER_FAILED errors */
+  readonly pageNumber?: number;
+  /** The original error, usually a PDF.js exception */
+  readonly cause?: unknown;
+
+  constructor(code: PDFViewerErrorCode, message: string, options: PDFViewerErrorOptions = {}) {
+    super(message);
+    this.name = 'PDFViewerError';
+    this.code = code;
+    this.status = options.status;
+    this.pageNumber = options.pageNumber;
+    this.cause = options.cause;
+  }
+}
+
+// PasswordException code after a wrong password
+const INCORRECT_PASSWORD = 2;
+
+// Message of the worker when it belongs to another pdfjs-dist release
+const WORKER_VERSION_MISMATCH = /API version "([^"]+)" does not match the Worker version "([^"]+)"/;
+
+/**
+ * Classify an error thrown while loading or rendering a PDF. PDF.js
+ * exceptions cross the worker boundary, so they are recognized by name.
+ */
+export function toPDFViewerError(
+  error: unknown,
+  fallbackCode: PDFViewerErrorCode = 'UNKNOWN',
+  options: PDFViewerErrorOptions = {}
+): PDFViewerError {
+  if (error instanceof PDFViewerError) {
+    return error;
+  }
+
+  const { name = '', message = String(error), status, code, missing } =
+    (typeof error === 'object' && error !== null ? error : {}) as {
+      name?: string;
+      message?: string;
+      status?: number;
+      code?: number;
+      missing?: boolean;
+    };
+  const details = { ...options, cause: error };
+
+  switch (name) {
+    case 'PasswordException':
+      return new PDFViewerError(
+        code === INCORRECT_PASSWORD ? 'PASSWORD_INCORRECT' : 'PASSWORD_REQUIRED',
+        message,
+        details
+      );
+    case 'InvalidPDFException':
+      return new PDFViewerError('INVALID_PDF', message, details);
+    case 'MissingPDFException':
+      return new PDFViewerError('HTTP_STATUS', message, { ...details, status: 404 });
+    case 'UnexpectedResponseException':
+    case 'ResponseException': {
+      const responseStatus = missing ? 404 : status;
+      // Status 0 means the request never got a response
+      return responseStatus
+        ? new PDFViewerError('HTTP_STATUS', message, { ...details, status: responseStatus })
+        : new PDFViewerError('NETWORK', message, details);
+    }
+  }
+
+  const mismatch = message.match(WORKER_VERSION_MISMATCH);
+  if (mismatch) {
+    return new PDFViewerError(
+      'WORKER_FAILED',
+      `The PDF.js worker is version ${mismatch[2]}, but pdfjs-dist is version ${mismatch[1]}. ` +
+        'Load the worker from the installed pdfjs-dist package, such as ' +
+        "new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).",
+      details
+    );
+  }
+  if (/worker/i.test(message)) {
+    return new PDFViewerError('WORKER_FAILED', message, details);
+  }
+  // Failed fetches arrive as unknown errors with the browser's message
+  if (/fetch|network/i.test(message)) {
+    return new PDFViewerError('NETWORK', message, details);
+  }
+
+  return new PDFViewerError(fallbackCode, message, details);
+}
+
+/**
+ * Report a page that failed to load or render to `onRenderError`, or log it
+ * when there is no handler
+ */
+export function reportPageError(
+  error: unknown,
+  pageNumber: number,
+  onRenderError?: (error: PDFViewerError) => void
+): void {
+  const renderError = toPDFViewerError(error, 'RENDER_FAILED', { pageNumber });
+  if (onRenderError) {
+    onRenderError(renderError);
+  } else {
+    console.error(`Error rendering page ${pageNumber}:`, error);
+  }
+}
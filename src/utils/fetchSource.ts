@@ -0,0 +1,169 @@
+import type { LoadProgress, PDFRequest, RequestInterceptor } from '../PDFViewer.types';
+import { PDFViewerError } from './errors';
+import { createRangeTransport, type RangeTransport } from './rangeTransport';
+
+/**
+ * Options for fetching a document through a request interceptor
+ */
+export interface FetchSourceOptions {
+  requestInterceptor: RequestInterceptor;
+  httpHeaders?: Record<string, string>;
+  withCredentials?: boolean;
+  onProgress?: (progress: LoadProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * The document as PDF.js should load it: the whole file, or ranges of it
+ */
+export type FetchedSource = { data: Uint8Array } | RangeTransport;
+
+// Bytes requested first, matching the PDF.js range chunk size
+const INITIAL_RANGE_SIZE = 65536;
+
+/**
+ * Error for a response with an error status
+ */
+function createStatusError(status: number, url: string): PDFViewerError {
+  return new PDFViewerError(
+    'HTTP_STATUS',
+    `Unexpected server response (${status}) while retrieving PDF "${url}".`,
+    { status }
+  );
+}
+
+/**
+ * Headers in any form as a plain object
+ */
+function toHeaderRecord(headers: HeadersInit | undefined): Record<string, string> {
+  if (!headers) return {};
+  if (Array.isArray(headers)) return Object.fromEntries(headers);
+  if (headers instanceof Headers) return Object.fromEntries(headers.entries());
+  return { ...headers };
+}
+
+/**
+ * Fetch with the options from the interceptor, asking it again after a 401
+ */
+async function request(
+  url: string,
+  range: PDFRequest['range'],
+  options: FetchSourceOptions
+): Promise<Response> {
+  const { requestInterceptor, httpHeaders, withCredentials, signal } = options;
+
+  const send = async (retry: boolean) => {
+    const init = await requestInterceptor({ url, range, retry });
+
+    const headers = { ...httpHeaders, ...toHeaderRecord(init.headers) };
+    if (range) {
+      headers.Range = `bytes=${range.begin}-${range.end - 1}`;
+    }
+
+    return fetch(url, {
+      credentials: withCredentials ? 'include' : 'same-origin',
+      ...init,
+      headers,
+      signal,
+    });
+  };
+
+  let response = await send(false);
+  // Expired credentials get one more try, once the interceptor refreshed them
+  if (response.status === 401) {
+    response = await send(true);
+  }
+
+  if (!response.ok) {
+    throw createStatusError(response.status, url);
+  }
+  return response;
+}
+
+/**
+ * Total size from a `Content-Range: bytes 0-65535/1048576` header
+ */
+function getRangeTotal(response: Response): number | null {
+  const match = response.headers.get('Content-Range')?.match(/\/(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Read a whole response body, reporting progress as it arrives
+ */
+async function readBody(
+  response: Response,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<Uint8Array> {
+  const total = Number(response.headers.get('Content-Length')) || null;
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    onProgress?.({ loaded: data.length, total: data.length });
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.({ loaded, total });
+  }
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+/**
+ * Read a response given as the source. A clone is read, so the source can be
+ * loaded again.
+ */
+export async function readResponse(
+  response: Response,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<Uint8Array> {
+  if (!response.ok) {
+    throw createStatusError(response.status, response.url);
+  }
+  return readBody(response.clone(), onProgress);
+}
+
+/**
+ * Open a URL source with a request interceptor. Servers that support range
+ * requests serve the document in ranges; others send the whole file.
+ */
+export async function openFetchSource(url: string, options: FetchSourceOptions): Promise<FetchedSource> {
+  const first = await request(url, { begin: 0, end: INITIAL_RANGE_SIZE }, options);
+  const total = first.status === 206 ? getRangeTotal(first) : null;
+
+  if (total === null) {
+    // The range was ignored, so this is the whole file
+    return { data: await readBody(first, options.onProgress) };
+  }
+
+  const initialData = new Uint8Array(await first.arrayBuffer());
+  if (initialData.length >= total) {
+    options.onProgress?.({ loaded: total, total });
+    return { data: initialData };
+  }
+
+  // Progress counts the bytes received so far, as ranges arrive in any order
+  let loaded = initialData.length;
+  options.onProgress?.({ loaded, total });
+
+  return createRangeTransport(total, initialData, async (begin, end) => {
+    const response = await request(url, { begin, end }, options);
+    const chunk = new Uint8Array(await response.arrayBuffer());
+    loaded = Math.min(total, loaded + chunk.length);
+    options.onProgress?.({ loaded, total });
+    return chunk;
+  });
+}
@@ -1,3 +1,63 @@
-export { initializeWorker, isWorkerInitialized, resetWorker } from './worker';
-export { parseSource, base64ToUint8Array, type SourceType, type ParsedSource } from './parseSource';
-export { loadDocument, abortLoadingTask, type LoadDocumentOptions, type LoadDocumentResult } from './loadDocument';
+export { initializeWorker, isWorkerInitialized, resetWorker, type PDFWorkerOptions } from './worker';
+export { parseSource, base64ToUint8Array, decodeBase64, type SourceType, type ParsedSource } from './parseSource';
+export { PDFViewerError, toPDFViewerError, type PDFViewerErrorOptions } from './errors';
+export {
+  resolveRetryPolicy,
+  getRetryDelay,
+  isTransientError,
+  type ResolvedRetryPolicy,
+} from './retry';
+export {
+  loadDocument,
+  abortLoadingTask,
+  type LoadDocumentOptions,
+  type LoadDocumentResult,
+  type DocumentLoadingTask,
+} from './loadDocument';
+export {
+  createDocumentCache,
+  getDocumentCacheKey,
+  defaultDocumentCache,
+  type DocumentCache,
+  type DocumentCacheHandle,
+  type DocumentLoad,
+  type DocumentLoader,
+  type DocumentLoadCallbacks,
+} from './documentCache';
+export { preloadDocument, type PreloadDocumentOptions, type PreloadedDocument } from './preloadDocument';
+export {
+  getRotatedSize,
+  getPageRotation,
+  getSpreadPages,
+  getSpreads,
+  getPageElements,
+  findVisiblePageRange,
+  type PageSize,
+  type PageRange,
+  type ScrollAxis,
+} from './pageLayout';
+export {
+  captureScrollAnchor,
+  restoreScrollAnchor,
+  rotateScrollAnchor,
+  type ScrollAnchor,
+} from './scrollAnchor';
+export { selectRetainedPages, DEFAULT_RENDER_BUDGET } from './renderBudget';
+export {
+  createRenderQueue,
+  type CancellableRender,
+  type RenderQueue,
+  type RenderQueueOptions,
+  type RenderQueueViewport,
+} from './renderQueue';
+export {
+  shouldUseTiles,
+  getBackdropScale,
+  getVisibleTiles,
+  DEFAULT_MAX_CANVAS_PIXELS,
+  TILE_SIZE,
+  type Tile,
+  type VisibleRegion,
+} from './tiles';
+export { createBitmapCache, type BitmapCache, type PageBitmap } from './bitmapCache';
+export { clampScale, calculateScale, MIN_SCALE, MAX_SCALE } from './scale';
@@ -1,8 +1,19 @@
 import * as pdfjs from 'pdfjs-dist';
 import type { PDFDocumentProxy, PDFDocumentLoadingTask } from 'pdfjs-dist';
-import type { PDFSource, PDFDocumentInfo } from '../PDFViewer.types';
-import { parseSource, base64ToUint8Array } from './parseSource';
-import { initializeWorker } from './worker';
+import type {
+  PDFSource,
+  PDFDocumentInfo,
+  LoadProgress,
+  PasswordReason,
+  RequestInterceptor,
+  PDFRangeSource,
+  PDFSourceFactory,
+} from '../PDFViewer.types';
+import { parseSource, decodeBase64, type ParsedSource } from './parseSource';
+import { initializeWorker, getWorker, waitForWorker } from './worker';
+import { toPDFViewerError } from './errors';
+import { openFetchSource, readResponse } from './fetchSource';
+import { createRangeTransport, type RangeTransport } from './rangeTransport';
 
 /**
  * Options for loading a PDF document
@@ -16,8 +27,16 @@ export interface LoadDocumentOptions {
   cMapUrl?: string;
   /** Password for protected PDFs */
   password?: string;
-  /** Path to PDF.js worker file */
+  /** Path to PDF.js worker file; required unless `workerPort` is given */
   workerSrc?: string;
+  /** A PDF.js worker the app started itself, used instead of `workerSrc` */
+  workerPort?: Worker;
+  /** Callback as the document downloads */
+  onProgress?: (progress: LoadProgress) => void;
+  /** Ask for a password; the load continues with the resolved one and fails on rejection */
+  onPassword?: (reason: PasswordReason) => Promise<string>;
+  /** Supply the options of each request for a URL source; a 401 is retried once */
+  requestInterceptor?: RequestInterceptor;
 }
 
 /**
@@ -74,33 +93,259 @@ async function extractDocumentInfo(document: PDFDocumentProxy): Promise<PDFDocum
   };
 }
 
+// The object form of the `getDocument` parameter
+type DocumentInitParameters = Exclude<
+  Parameters<typeof pdfjs.getDocument>[0],
+  string | URL | ArrayBuffer | ArrayBufferView | undefined
+>;
+
+/**
+ * Handle to cancel a document load, including requests made before PDF.js
+ * takes over
+ */
+export interface DocumentLoadingTask {
+  destroy(): Promise<void>;
+}
+
+/**
+ * A started load
+ */
+interface DocumentLoading {
+  task: DocumentLoadingTask;
+  promise: Promise<LoadDocumentResult>;
+  /** Rejects if the document fails after it opened, such as when a range cannot be read */
+  failed?: Promise<never>;
+}
+
+/**
+ * Start a PDF.js loading task, wired to the progress and password callbacks
+ */
+function startLoadingTask(
+  params: DocumentInitParameters,
+  options: LoadDocumentOptions
+): { task: PDFDocumentLoadingTask; promise: Promise<LoadDocumentResult> } {
+  const worker = getWorker();
+  const task = pdfjs.getDocument({ ...params, worker });
+
+  const { onProgress } = options;
+  if (onProgress) {
+    // PDF.js reports no total when the server does not send a length
+    task.onProgress = ({ loaded, total }: { loaded: number; total?: number }) => {
+      onProgress({ loaded, total: total || null });
+    };
+  }
+
+  const { onPassword } = options;
+  if (onPassword) {
+    // Retries happen within the same task, so nothing is downloaded again
+    task.onPassword = (updatePassword: (password: string | Error) => void, reason: number) => {
+      onPassword(
+        reason === pdfjs.PasswordResponses.INCORRECT_PASSWORD
+          ? 'INCORRECT_PASSWORD'
+          : 'NEED_PASSWORD'
+      ).then(updatePassword, (error: unknown) => {
+        // Fail the same way as a load without a password handler
+        const message = error instanceof Error ? error.message : 'No password given.';
+        updatePassword(Object.assign(new Error(message), { name: 'PasswordException', code: reason }));
+      });
+    };
+  }
+
+  // Create the promise that resolves with document and info, or fails if the worker cannot start
+  const promise = Promise.all([task.promise, waitForWorker(worker)]).then(async ([document]) => {
+    const info = await extractDocumentInfo(document);
+    return { document, info };
+  });
+
+  return { task, promise };
+}
+
+/**
+ * Fail a load served through a range transport when a range cannot be read.
+ * PDF.js cannot fail a single range, so the document is destroyed, which
+ * aborts its pending range requests and rejects the waiting `getPage` and
+ * `render` calls.
+ */
+function failOnRangeError(loading: DocumentLoading, transport: RangeTransport): DocumentLoading {
+  transport.failed.catch(() => loading.task.destroy());
+
+  const failed = transport.failed.catch(rejectWithViewerError);
+  // Callers that do not watch for failures still see them through the pages
+  failed.catch(() => {});
+
+  return { task: loading.task, promise: Promise.race([loading.promise, transport.failed]), failed };
+}
+
+/**
+ * Start a load once some asynchronous work is done, such as reading the
+ * source. Destroying the task also aborts that work.
+ */
+function deferLoad<T>(
+  prepare: (signal: AbortSignal) => Promise<T>,
+  start: (value: T) => DocumentLoading
+): DocumentLoading {
+  const controller = new AbortController();
+  let started: DocumentLoadingTask | null = null;
+
+  let fail: (error: unknown) => void = () => {};
+  const failed = new Promise<never>((_, reject) => {
+    fail = reject;
+  });
+  failed.catch(() => {});
+
+  const promise = prepare(controller.signal).then((value) => {
+    if (controller.signal.aborted) {
+      throw new Error('Loading aborted');
+    }
+
+    const loading = start(value);
+    started = loading.task;
+    loading.failed?.catch(fail);
+    return loading.promise;
+  });
+
+  const task: DocumentLoadingTask = {
+    destroy() {
+      controller.abort();
+      return started ? started.destroy() : Promise.resolve();
+    },
+  };
+
+  return { task, promise, failed };
+}
+
 /**
- * Load a PDF document from the given source
+ * Fetch a URL source through the request interceptor, then hand the bytes or
+ * a range transport to PDF.js
+ */
+function loadThroughInterceptor(
+  url: string,
+  params: DocumentInitParameters,
+  options: LoadDocumentOptions & { requestInterceptor: RequestInterceptor }
+): DocumentLoading {
+  const fetchOptions = {
+    requestInterceptor: options.requestInterceptor,
+    httpHeaders: options.httpHeaders,
+    withCredentials: options.withCredentials,
+    onProgress: options.onProgress,
+  };
+
+  return deferLoad(
+    (signal) => openFetchSource(url, { ...fetchOptions, signal }),
+    (source) => {
+      if ('data' in source) {
+        return startLoadingTask({ ...params, url: undefined, data: source.data }, options);
+      }
+
+      const loading = startLoadingTask({ ...params, url: undefined, range: source.range }, options);
+      return failOnRangeError(loading, source);
+    }
+  );
+}
+
+/**
+ * Read a Blob or File
+ */
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+  }
+
+  // Older browsers only read blobs through FileReader
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * How to get a loadable source from one that must be read first, or null if
+ * the source can be loaded as is
+ */
+function getSourceReader(
+  parsed: ParsedSource,
+  options: LoadDocumentOptions
+): ((signal: AbortSignal) => Promise<PDFSource>) | null {
+  switch (parsed.type) {
+    case 'base64':
+      return (signal) => decodeBase64(parsed.data as string, signal);
+    case 'blob':
+      return () => readBlob(parsed.data as Blob);
+    case 'response':
+      return () => readResponse(parsed.data as Response, options.onProgress);
+    case 'factory':
+      return (signal) => (parsed.data as PDFSourceFactory)(signal);
+    default:
+      return null;
+  }
+}
+
+const rejectWithViewerError = (error: unknown): never => {
+  throw toPDFViewerError(error);
+};
+
+/**
+ * Serve a range source through a PDF.js range transport
+ */
+function createSourceTransport(source: PDFRangeSource): RangeTransport {
+  return createRangeTransport(source.length, source.initialData ?? null, async (begin, end) => {
+    const chunk = await source.getRange(begin, end);
+    return chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+  });
+}
+
+/**
+ * Load a PDF document from the given source. Failures reject with a PDFViewerError,
+ * including a missing worker or an invalid source.
  */
 export function loadDocument(
   src: PDFSource,
   options: LoadDocumentOptions = {}
-): { task: PDFDocumentLoadingTask; promise: Promise<LoadDocumentResult> } {
+): DocumentLoading {
+  try {
+    return startLoad(src, options);
+  } catch (error) {
+    return {
+      task: { destroy: () => Promise.resolve() },
+      promise: Promise.reject(toPDFViewerError(error, 'INVALID_SOURCE')),
+    };
+  }
+}
+
+/**
+ * Start loading a document; throws if the load cannot start
+ */
+function startLoad(src: PDFSource, options: LoadDocumentOptions): DocumentLoading {
   // Initialize the worker
-  initializeWorker(options.workerSrc);
+  initializeWorker({ workerSrc: options.workerSrc, workerPort: options.workerPort });
 
   // Parse the source
   const parsed = parseSource(src);
 
+  // Sources that must be read first are loaded once read
+  const readSource = getSourceReader(parsed, options);
+  if (readSource) {
+    const { task, promise, failed } = deferLoad(readSource, (source) => loadDocument(source, options));
+    return { task, promise: promise.catch(rejectWithViewerError), failed };
+  }
+
   // Build the document init params
-  type DocumentInitParameters = Parameters<typeof pdfjs.getDocument>[0];
   const params: DocumentInitParameters = {};
+  let transport: RangeTransport | null = null;
 
   switch (parsed.type) {
     case 'url':
       params.url = parsed.data as string;
       break;
-    case 'base64':
-      params.data = base64ToUint8Array(parsed.data as string);
-      break;
     case 'binary':
       params.data = parsed.data as Uint8Array;
       break;
+    case 'range':
+      transport = createSourceTransport(parsed.data as PDFRangeSource);
+      params.range = transport.range;
+      break;
   }
 
   // Add optional parameters
@@ -125,22 +370,20 @@ export function loadDocument(
   params.disableRange = false;
   params.disableStream = false;
 
-  // Create the loading task
-  const task = pdfjs.getDocument(params);
+  const { requestInterceptor } = options;
+  const loading: DocumentLoading =
+    parsed.type === 'url' && requestInterceptor
+      ? loadThroughInterceptor(parsed.data as string, params, { ...options, requestInterceptor })
+      : startLoadingTask(params, options);
 
-  // Create the promise that resolves with document and info
-  const promise = task.promise.then(async (document) => {
-    const info = await extractDocumentInfo(document);
-    return { document, info };
-  });
-
-  return { task, promise };
+  const { task, promise, failed } = transport ? failOnRangeError(loading, transport) : loading;
+  return { task, promise: promise.catch(rejectWithViewerError), failed };
 }
 
 /**
  * Abort a loading task safely
  */
-export function abortLoadingTask(task: PDFDocumentLoadingTask | null): void {
+export function abortLoadingTask(task: DocumentLoadingTask | null): void {
   if (task) {
     task.destroy().catch(() => {
       // Ignore errors during abort
@@ -0,0 +1,159 @@
+import type { RotationValue, PageRotations, SpreadMode } from '../PDFViewer.types';
+
+/**
+ * Size of a page in CSS pixels
+ */
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Inclusive range of page indices (0-indexed)
+ */
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the size of a page after applying a rotation
+ */
+export function getRotatedSize(size: PageSize, rotation: RotationValue): PageSize {
+  if (rotation === 90 || rotation === 270) {
+    return { width: size.height, height: size.width };
+  }
+  return size;
+}
+
+/**
+ * Get the rotation a page is displayed at: the document rotation plus the
+ * page's own rotation
+ */
+export function getPageRotation(
+  rotation: RotationValue,
+  pageRotations: PageRotations,
+  pageNumber: number
+): RotationValue {
+  return ((rotation + (pageRotations[pageNumber] ?? 0)) % 360) as RotationValue;
+}
+
+/**
+ * Get the page numbers of the spread that contains a page
+ */
+export function getSpreadPages(
+  pageNumber: number,
+  totalPages: number,
+  spreadMode: SpreadMode
+): number[] {
+  if (spreadMode === 'none' || (spreadMode === 'even' && pageNumber === 1)) {
+    return [pageNumber];
+  }
+
+  // Spreads start on odd pages in 'odd' mode and on even pages in 'even' mode
+  const startsOnOdd = spreadMode === 'odd';
+  const first = (pageNumber % 2 === 1) === startsOnOdd ? pageNumber : pageNumber - 1;
+  return first < totalPages ? [first, first + 1] : [first];
+}
+
+/**
+ * Group the pages of a document into spreads
+ */
+export function getSpreads(totalPages: number, spreadMode: SpreadMode): number[][] {
+  const spreads: number[][] = [];
+  let pageNumber = 1;
+  while (pageNumber <= totalPages) {
+    const spread = getSpreadPages(pageNumber, totalPages, spreadMode);
+    spreads.push(spread);
+    pageNumber = spread[spread.length - 1] + 1;
+  }
+  return spreads;
+}
+
+/**
+ * Get all page elements (placeholders and rendered pages) in document order
+ */
+export function getPageElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('[data-page-number]'));
+}
+
+/**
+ * Direction pages are laid out and scrolled in
+ */
+export type ScrollAxis = 'vertical' | 'horizontal';
+
+/**
+ * Get the start and end edges of a rect along an axis
+ */
+function getEdges(rect: DOMRect, axis: ScrollAxis): [number, number] {
+  return axis === 'horizontal' ? [rect.left, rect.right] : [rect.top, rect.bottom];
+}
+
+/**
+ * Find the range of page elements that intersect the container's visible area,
+ * extended by `overscan` pixels before and after along the scroll axis.
+ *
+ * Page elements are expected in document order, so their start edges along the
+ * scroll axis never decrease. This lets us binary search instead of measuring
+ * every page, which matters for documents with thousands of pages. Pages that
+ * wrap into rows share a start edge and are included a whole row at a time.
+ */
+export function findVisiblePageRange(
+  container: HTMLElement,
+  elements: HTMLElement[],
+  overscan = 0,
+  axis: ScrollAxis = 'vertical'
+): PageRange | null {
+  if (elements.length === 0) return null;
+
+  const [containerStart] = getEdges(container.getBoundingClientRect(), axis);
+  const viewSize = axis === 'horizontal' ? container.clientWidth : container.clientHeight;
+  const viewStart = -overscan;
+  const viewEnd = viewSize + overscan;
+  const getStart = (index: number) =>
+    getEdges(elements[index].getBoundingClientRect(), axis)[0] - containerStart;
+  const getEnd = (index: number) =>
+    getEdges(elements[index].getBoundingClientRect(), axis)[1] - containerStart;
+
+  // Last element whose start edge is not after the start of the view
+  let low = 0;
+  let high = elements.length - 1;
+  let start = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (getStart(mid) <= viewStart) {
+      start = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // Widen to the whole row, and skip the row if it ends before the view
+  const rowStart = getStart(start);
+  let rowFirst = start;
+  while (rowFirst > 0 && getStart(rowFirst - 1) === rowStart) rowFirst--;
+  let rowLast = start;
+  let rowEnd = getEnd(start);
+  while (rowLast < elements.length - 1 && getStart(rowLast + 1) === rowStart) {
+    rowLast++;
+    rowEnd = Math.max(rowEnd, getEnd(rowLast));
+  }
+  start = rowEnd < viewStart && rowLast < elements.length - 1 ? rowLast + 1 : rowFirst;
+
+  // Last element whose start edge is not after the end of the view
+  low = start;
+  high = elements.length - 1;
+  let end = start;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (getStart(mid) <= viewEnd) {
+      end = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return { start, end };
+}
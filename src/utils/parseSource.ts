@@ -1,24 +1,78 @@
-import type { PDFSource } from '../PDFViewer.types';
+import type { PDFSource, PDFRangeSource } from '../PDFViewer.types';
+import { PDFViewerError } from './errors';
 
 /**
  * Type of PDF source
  */
-export type SourceType = 'url' | 'base64' | 'binary';
+export type SourceType = 'url' | 'base64' | 'binary' | 'range' | 'blob' | 'response' | 'factory';
 
 /**
  * Parsed source information
  */
 export interface ParsedSource {
   type: SourceType;
-  data: string | Uint8Array | ArrayBuffer;
+  data: PDFSource;
+}
+
+// MIME types a data URI holding a PDF may have, besides any with "pdf" in them
+const BINARY_MIME_TYPES = ['', 'application/octet-stream', 'binary/octet-stream', 'application/binary'];
+
+// "%PDF-" in base64, the start of every PDF
+const PDF_SIGNATURE_BASE64 = 'JVBERi0';
+
+// Strings this long made only of base64 characters are data, not a URL
+const RAW_BASE64_MIN_LENGTH = 1024;
+
+// Base64 characters decoded at a time, a multiple of 4
+const DECODE_CHUNK_SIZE = 1024 * 1024;
+
+const BASE64_CHARACTERS = /^[A-Za-z0-9+/\-_=\s]*$/;
+
+/**
+ * Parse the header of a data URI, or return null if the string is not one
+ */
+function parseDataUri(str: string): { mimeType: string; base64: boolean } | null {
+  if (!/^data:/i.test(str)) return null;
+
+  const comma = str.indexOf(',');
+  if (comma < 0) return null;
+
+  const [mimeType, ...parameters] = str.slice(5, comma).split(';');
+  return {
+    mimeType: mimeType.trim().toLowerCase(),
+    base64: parameters.some((parameter) => parameter.trim().toLowerCase() === 'base64'),
+  };
+}
+
+/**
+ * Check if a MIME type may hold a PDF
+ */
+function isPDFMimeType(mimeType: string): boolean {
+  return mimeType.includes('pdf') || BINARY_MIME_TYPES.includes(mimeType);
 }
 
 /**
- * Check if a string is a Base64 data URI
+ * Check if a string is base64 without a data URI prefix
  */
-function isBase64DataUri(str: string): boolean {
-  return str.startsWith('data:application/pdf;base64,') ||
-    str.startsWith('data:application/octet-stream;base64,');
+function isRawBase64(str: string): boolean {
+  const trimmed = str.trimStart();
+  if (trimmed.startsWith(PDF_SIGNATURE_BASE64)) {
+    return BASE64_CHARACTERS.test(trimmed.slice(0, RAW_BASE64_MIN_LENGTH));
+  }
+  return str.length >= RAW_BASE64_MIN_LENGTH && BASE64_CHARACTERS.test(str);
+}
+
+/**
+ * Check if a value is a range source
+ */
+function isRangeSource(value: unknown): value is PDFRangeSource {
+  const source = value as PDFRangeSource | null;
+  return (
+    typeof source === 'object' &&
+    source !== null &&
+    typeof source.length === 'number' &&
+    typeof source.getRange === 'function'
+  );
 }
 
 /**
@@ -40,18 +94,68 @@ function isUrl(str: string): boolean {
 }
 
 /**
- * Convert a Base64 data URI to a Uint8Array
+ * Get the base64 payload of a data URI or raw base64 string in the standard
+ * alphabet, padded. URL-safe, percent-encoded and wrapped base64 is accepted.
  */
-export function base64ToUint8Array(base64: string): Uint8Array {
-  // Remove the data URI prefix if present
-  const base64Data = base64.includes(',') ? base64.split(',')[1] : base64;
+function normalizeBase64(base64: string): string {
+  let payload = parseDataUri(base64) ? base64.slice(base64.indexOf(',') + 1) : base64;
 
-  // Decode Base64
-  const binaryString = atob(base64Data);
-  const bytes = new Uint8Array(binaryString.length);
+  try {
+    if (payload.includes('%')) payload = decodeURIComponent(payload);
+  } catch {
+    // Reported as invalid below
+  }
+
+  payload = payload.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (payload.length % 4 === 1 || /[^A-Za-z0-9+/]/.test(payload)) {
+    throw new PDFViewerError('INVALID_SOURCE', 'The PDF source is not valid base64 data.');
+  }
+
+  return payload + '='.repeat((4 - (payload.length % 4)) % 4);
+}
 
+/**
+ * Decode normalized base64 into `bytes` from `offset`
+ */
+function decodeInto(payload: string, bytes: Uint8Array, offset: number): void {
+  const binaryString = atob(payload);
   for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+    bytes[offset + i] = binaryString.charCodeAt(i);
+  }
+}
+
+/**
+ * Allocate the bytes a normalized base64 payload decodes to
+ */
+function allocateDecoded(payload: string): Uint8Array {
+  const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+  return new Uint8Array((payload.length / 4) * 3 - padding);
+}
+
+/**
+ * Convert a Base64 data URI or raw base64 string to a Uint8Array
+ */
+export function base64ToUint8Array(base64: string): Uint8Array {
+  const payload = normalizeBase64(base64);
+  const bytes = allocateDecoded(payload);
+  decodeInto(payload, bytes, 0);
+  return bytes;
+}
+
+/**
+ * Convert base64 to a Uint8Array in chunks, yielding to the main thread
+ * between them so large documents do not freeze the page
+ */
+export async function decodeBase64(base64: string, signal?: AbortSignal): Promise<Uint8Array> {
+  const payload = normalizeBase64(base64);
+  const bytes = allocateDecoded(payload);
+
+  for (let start = 0; start < payload.length; start += DECODE_CHUNK_SIZE) {
+    if (start > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal?.aborted) throw new Error('Loading aborted');
+    }
+    decodeInto(payload.slice(start, start + DECODE_CHUNK_SIZE), bytes, (start / 4) * 3);
   }
 
   return bytes;
@@ -70,10 +174,34 @@ export function parseSource(src: PDFSource): ParsedSource {
     return { type: 'binary', data: new Uint8Array(src) };
   }
 
+  if (isRangeSource(src)) {
+    return { type: 'range', data: src };
+  }
+
+  // Blobs include Files
+  if (typeof Blob !== 'undefined' && src instanceof Blob) {
+    return { type: 'blob', data: src };
+  }
+
+  if (typeof Response !== 'undefined' && src instanceof Response) {
+    return { type: 'response', data: src };
+  }
+
+  if (typeof src === 'function') {
+    return { type: 'factory', data: src };
+  }
+
   // String sources
   if (typeof src === 'string') {
-    // Check for Base64 data URI
-    if (isBase64DataUri(src)) {
+    // Data URIs must hold a PDF; those that are not base64 are fetched as URLs
+    const dataUri = parseDataUri(src);
+    if (dataUri && !isPDFMimeType(dataUri.mimeType)) {
+      throw new PDFViewerError(
+        'INVALID_SOURCE',
+        `The data URI has the MIME type "${dataUri.mimeType}", which is not a PDF.`
+      );
+    }
+    if (dataUri?.base64 || (!dataUri && isRawBase64(src))) {
       return { type: 'base64', data: src };
     }
 
@@ -86,5 +214,5 @@ export function parseSource(src: PDFSource): ParsedSource {
     return { type: 'url', data: src };
   }
 
-  throw new Error('Invalid PDF source type');
+  throw new PDFViewerError('INVALID_SOURCE', 'Invalid PDF source type');
 }
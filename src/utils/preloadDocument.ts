@@ -0,0 +1,99 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PDFSource, PDFDocumentInfo } from '../PDFViewer.types';
+import { loadDocument, type LoadDocumentOptions } from './loadDocument';
+import {
+  defaultDocumentCache,
+  getDocumentCacheKey,
+  type DocumentCache,
+  type DocumentCacheHandle,
+} from './documentCache';
+import { toPDFViewerError } from './errors';
+
+/**
+ * Options for preloading a PDF document
+ */
+export interface PreloadDocumentOptions extends LoadDocumentOptions {
+  /** Cache the viewer will load from; use `useDocumentCache()` inside a PDFDocumentCacheProvider */
+  cache?: DocumentCache;
+  /** Also render the first page, so fonts and images are ready when it is shown */
+  renderFirstPage?: boolean;
+}
+
+/**
+ * A document being preloaded
+ */
+export interface PreloadedDocument {
+  /** Resolves with the document info once loaded (and the first page rendered, if requested) */
+  promise: Promise<PDFDocumentInfo>;
+  /** Drop the preloaded document unless a viewer is already showing it */
+  cancel(): void;
+}
+
+/**
+ * Render a page off-screen. PDF.js keeps the operator list, fonts and images
+ * on the page, which the viewer reuses.
+ */
+async function prerenderPage(document: PDFDocumentProxy, pageNumber: number): Promise<void> {
+  const page = await document.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+
+  const canvas = window.document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const canvasContext = canvas.getContext('2d');
+  if (!canvasContext) return;
+
+  await page.render({ canvasContext, viewport }).promise;
+}
+
+/**
+ * Start loading a document before it is shown. A PDFViewer with the same
+ * source and load options uses the preloaded document instead of loading it
+ * again. The document is kept until a viewer uses it or `cancel()` is called.
+ */
+export function preloadDocument(
+  src: PDFSource,
+  options: PreloadDocumentOptions = {}
+): PreloadedDocument {
+  const {
+    cache = defaultDocumentCache,
+    renderFirstPage = false,
+    onProgress,
+    onPassword,
+    ...loadOptions
+  } = options;
+
+  let handle: DocumentCacheHandle;
+  try {
+    const key = getDocumentCacheKey(src, loadOptions);
+    handle = cache.preload(key, (callbacks) =>
+      loadDocument(src, { ...loadOptions, ...callbacks })
+    );
+  } catch (error) {
+    // A source that cannot be keyed cannot be loaded either
+    return toPreloadedDocument(Promise.reject(toPDFViewerError(error, 'INVALID_SOURCE')), () => {});
+  }
+  handle.onProgress(onProgress ?? null);
+  handle.onPassword(onPassword ?? null);
+
+  const promise = handle.promise.then(async ({ document, info }) => {
+    if (renderFirstPage) {
+      await prerenderPage(document, 1).catch(() => {
+        // Rendering is an optimization; the viewer renders the page anyway
+      });
+    }
+    return info;
+  });
+
+  return toPreloadedDocument(promise, handle.release);
+}
+
+/**
+ * Build the preloaded document handed to the caller
+ */
+function toPreloadedDocument(promise: Promise<PDFDocumentInfo>, cancel: () => void): PreloadedDocument {
+  // Preloading is best effort; callers that care handle the rejection
+  promise.catch(() => {});
+
+  return { promise, cancel };
+}
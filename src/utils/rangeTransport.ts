@@ -0,0 +1,63 @@
+import * as pdfjs from 'pdfjs-dist';
+
+/**
+ * Reads the bytes from `begin` up to, but not including, `end`
+ */
+export type RangeReader = (begin: number, end: number) => Promise<Uint8Array>;
+
+/**
+ * A range transport for `getDocument`, with a promise that rejects when a
+ * range cannot be read. PDF.js waits for ranges forever, so loads race it
+ * and destroy the document when it rejects.
+ */
+export interface RangeTransport {
+  range: pdfjs.PDFDataRangeTransport;
+  failed: Promise<never>;
+}
+
+class ReaderRangeTransport extends pdfjs.PDFDataRangeTransport {
+  private aborted = false;
+
+  constructor(
+    length: number,
+    initialData: Uint8Array | null,
+    private readonly readRange: RangeReader,
+    private readonly onError: (error: unknown) => void
+  ) {
+    super(length, initialData);
+  }
+
+  requestDataRange(begin: number, end: number): void {
+    this.readRange(begin, end).then(
+      (chunk) => {
+        if (!this.aborted) this.onDataRange(begin, chunk);
+      },
+      (error: unknown) => {
+        if (!this.aborted) this.onError(error);
+      }
+    );
+  }
+
+  abort(): void {
+    this.aborted = true;
+  }
+}
+
+/**
+ * Serve a document of `length` bytes to PDF.js through `readRange`, so it
+ * loads only the parts it needs
+ */
+export function createRangeTransport(
+  length: number,
+  initialData: Uint8Array | null,
+  readRange: RangeReader
+): RangeTransport {
+  let fail: (error: unknown) => void = () => {};
+  const failed = new Promise<never>((_, reject) => {
+    fail = reject;
+  });
+  return {
+    range: new ReaderRangeTransport(length, initialData, readRange, fail),
+    failed,
+  };
+}
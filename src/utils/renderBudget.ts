@@ -0,0 +1,40 @@
+import type { RenderBudget } from '../PDFViewer.types';
+
+/**
+ * Default budget when none is provided
+ */
+export const DEFAULT_RENDER_BUDGET: RenderBudget = {
+  maxPages: 10,
+};
+
+/**
+ * Select which pages keep their rendered canvases.
+ *
+ * Visible pages are always kept. Remaining pages are added from most to least
+ * recently seen until either limit of the budget would be exceeded.
+ */
+export function selectRetainedPages(
+  visiblePages: number[],
+  lastSeen: Map<number, number>,
+  getPixels: (pageNumber: number) => number,
+  budget: RenderBudget
+): Set<number> {
+  const retained = new Set(visiblePages);
+  let pixels = visiblePages.reduce((total, pageNumber) => total + getPixels(pageNumber), 0);
+
+  const candidates = Array.from(lastSeen.entries())
+    .filter(([pageNumber]) => !retained.has(pageNumber))
+    .sort((a, b) => b[1] - a[1]);
+
+  for (const [pageNumber] of candidates) {
+    const pagePixels = getPixels(pageNumber);
+
+    if (budget.maxPages !== undefined && retained.size + 1 > budget.maxPages) break;
+    if (budget.maxPixels !== undefined && pixels + pagePixels > budget.maxPixels) break;
+
+    retained.add(pageNumber);
+    pixels += pagePixels;
+  }
+
+  return retained;
+}
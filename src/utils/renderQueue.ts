@@ -0,0 +1,258 @@
+import type { RenderPriority, RenderTiming } from '../PDFViewer.types';
+import type { PageRange } from './pageLayout';
+
+/**
+ * A render that can be cancelled, such as a pdf.js RenderTask
+ */
+export interface CancellableRender {
+  promise: Promise<unknown>;
+  cancel(): void;
+}
+
+/**
+ * Current viewport, used to prioritize queued renders
+ */
+export interface RenderQueueViewport {
+  /** Pages intersecting the visible area (0-indexed) */
+  visible: PageRange;
+  /** Pages that may be rendered ahead of time (0-indexed) */
+  window: PageRange;
+  /** Scroll direction: 1 when moving towards the end of the document */
+  direction: 1 | -1;
+}
+
+/**
+ * Options for creating a render queue
+ */
+export interface RenderQueueOptions {
+  /** Maximum number of renders running at once */
+  concurrency?: number;
+  /** Called when a render completes */
+  onRenderTiming?: (timing: RenderTiming) => void;
+}
+
+/**
+ * Central scheduler for page renders
+ */
+export interface RenderQueue {
+  /** Queue a render. `start` is only called once the render is scheduled to run */
+  enqueue(pageNumber: number, start: () => CancellableRender): CancellableRender;
+  /** Update the viewport, reprioritizing and cancelling stale renders */
+  setViewport(viewport: RenderQueueViewport): void;
+  /** Cancel every queued and running render */
+  cancelAll(): void;
+}
+
+interface QueuedTask {
+  pageNumber: number;
+  start: () => CancellableRender;
+  running: CancellableRender | null;
+  runningPriority: RenderPriority;
+  parked: boolean;
+  settled: boolean;
+  queuedAt: number;
+  startedAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Priority offset that ranks pages behind the scroll direction after pages ahead of it
+const BEHIND_OFFSET = 1_000_000;
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function createCancelledError(): Error {
+  const error = new Error('Rendering cancelled');
+  error.name = 'RenderingCancelledException';
+  return error;
+}
+
+function requestIdle(callback: () => void): () => void {
+  if (typeof window !== 'undefined' && 'requestIdleCallback' in window) {
+    const handle = window.requestIdleCallback(callback, { timeout: 500 });
+    return () => window.cancelIdleCallback(handle);
+  }
+
+  const handle = setTimeout(callback, 16);
+  return () => clearTimeout(handle);
+}
+
+/**
+ * Create a render queue.
+ *
+ * Visible pages render as soon as a slot is free. Pages in the window but not
+ * visible are pre-rendered during idle time, pages ahead in the scroll
+ * direction first. Renders for pages that leave the window are cancelled and
+ * resume if the page comes back into view.
+ */
+export function createRenderQueue(options: RenderQueueOptions = {}): RenderQueue {
+  const { concurrency = 2, onRenderTiming } = options;
+
+  const tasks: QueuedTask[] = [];
+  let viewport: RenderQueueViewport | null = null;
+  let cancelIdle: (() => void) | null = null;
+
+  /**
+   * Lower numbers render first; null means the page is outside the window
+   */
+  const getPriority = (pageNumber: number): number | null => {
+    if (!viewport) return 0;
+
+    const index = pageNumber - 1;
+    const { visible, window: renderWindow, direction } = viewport;
+
+    if (index >= visible.start && index <= visible.end) return 0;
+    if (index < renderWindow.start || index > renderWindow.end) return null;
+
+    const isAhead = direction > 0 ? index > visible.end : index < visible.start;
+    const distance = index < visible.start ? visible.start - index : index - visible.end;
+    return isAhead ? distance : BEHIND_OFFSET + distance;
+  };
+
+  const remove = (task: QueuedTask) => {
+    const index = tasks.indexOf(task);
+    if (index !== -1) tasks.splice(index, 1);
+  };
+
+  const run = (task: QueuedTask, priority: RenderPriority) => {
+    task.parked = false;
+    task.runningPriority = priority;
+    task.startedAt = now();
+
+    let render: CancellableRender;
+    try {
+      render = task.start();
+    } catch (error) {
+      task.settled = true;
+      remove(task);
+      task.reject(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    task.running = render;
+
+    render.promise.then(
+      () => {
+        if (task.settled || task.running !== render) return;
+        task.settled = true;
+        task.running = null;
+        remove(task);
+
+        onRenderTiming?.({
+          pageNumber: task.pageNumber,
+          priority: task.runningPriority,
+          waitTime: task.startedAt - task.queuedAt,
+          renderTime: now() - task.startedAt,
+        });
+
+        task.resolve();
+        pump(false);
+      },
+      (error: Error) => {
+        if (task.settled || task.running !== render) return;
+        task.running = null;
+
+        // Parked renders go back to waiting until the page is in the window again
+        if (!task.parked) {
+          task.settled = true;
+          remove(task);
+          task.reject(error);
+        }
+
+        pump(false);
+      }
+    );
+  };
+
+  const pump = (isIdle: boolean) => {
+    // Cancel running renders for pages that left the window
+    tasks.forEach((task) => {
+      if (task.running && getPriority(task.pageNumber) === null) {
+        task.parked = true;
+        task.running.cancel();
+      }
+    });
+
+    let runningCount = tasks.filter((task) => task.running).length;
+    const waiting = tasks
+      .filter((task) => !task.running)
+      .map((task) => ({ task, priority: getPriority(task.pageNumber) }))
+      .filter((entry): entry is { task: QueuedTask; priority: number } => entry.priority !== null)
+      .sort((a, b) => a.priority - b.priority);
+
+    for (const { task, priority } of waiting) {
+      if (runningCount >= concurrency) break;
+
+      if (priority > 0 && !isIdle) {
+        // Pre-render neighbors only when the browser is idle
+        if (!cancelIdle) {
+          cancelIdle = requestIdle(() => {
+            cancelIdle = null;
+            pump(true);
+          });
+        }
+        break;
+      }
+
+      run(task, priority === 0 ? 'visible' : 'prefetch');
+      runningCount++;
+    }
+  };
+
+  return {
+    enqueue(pageNumber, start) {
+      let resolve!: () => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+
+      const task: QueuedTask = {
+        pageNumber,
+        start,
+        running: null,
+        runningPriority: 'visible',
+        parked: false,
+        settled: false,
+        queuedAt: now(),
+        startedAt: 0,
+        resolve,
+        reject,
+      };
+      tasks.push(task);
+      pump(false);
+
+      return {
+        promise,
+        cancel() {
+          if (task.settled) return;
+          task.settled = true;
+          task.running?.cancel();
+          task.running = null;
+          remove(task);
+          reject(createCancelledError());
+          pump(false);
+        },
+      };
+    },
+
+    setViewport(nextViewport) {
+      viewport = nextViewport;
+      pump(false);
+    },
+
+    cancelAll() {
+      cancelIdle?.();
+      cancelIdle = null;
+
+      tasks.splice(0).forEach((task) => {
+        task.settled = true;
+        task.running?.cancel();
+        task.running = null;
+        task.reject(createCancelledError());
+      });
+    },
+  };
+}
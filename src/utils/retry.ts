@@ -0,0 +1,48 @@
+import type { RetryPolicy } from '../PDFViewer.types';
+import type { PDFViewerError } from './errors';
+
+/**
+ * Retry policy with every option filled in
+ */
+export interface ResolvedRetryPolicy {
+  attempts: number;
+  delay: number;
+  maxDelay: number;
+  shouldRetry: (error: PDFViewerError) => boolean;
+}
+
+/**
+ * Whether an error is likely transient: the request never got an answer, or
+ * the server was temporarily unable to serve it
+ */
+export function isTransientError(error: PDFViewerError): boolean {
+  if (error.code === 'NETWORK') return true;
+  if (error.code !== 'HTTP_STATUS' || error.status === undefined) return false;
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Fill in the defaults of a retry policy. `true` uses the defaults; `false`
+ * or no policy disables retries.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy | boolean | undefined): ResolvedRetryPolicy | null {
+  if (!policy) return null;
+
+  const { attempts = 2, delay = 1000, maxDelay = 10000, retryOn } = policy === true ? {} : policy;
+
+  let shouldRetry = isTransientError;
+  if (Array.isArray(retryOn)) {
+    shouldRetry = (error) => retryOn.includes(error.code);
+  } else if (retryOn) {
+    shouldRetry = retryOn;
+  }
+
+  return { attempts, delay, maxDelay, shouldRetry };
+}
+
+/**
+ * Delay before the given retry (1-indexed), doubling after each attempt
+ */
+export function getRetryDelay(policy: ResolvedRetryPolicy, retry: number): number {
+  return Math.min(policy.maxDelay, policy.delay * 2 ** (retry - 1));
+}
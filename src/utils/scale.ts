@@ -0,0 +1,63 @@
+import type { ScaleValue } from '../PDFViewer.types';
+
+/**
+ * Smallest allowed scale
+ */
+export const MIN_SCALE = 0.1;
+
+/**
+ * Largest allowed scale
+ */
+export const MAX_SCALE = 10;
+
+/**
+ * Clamp a scale to the allowed range
+ */
+export function clampScale(scale: number, minScale = MIN_SCALE, maxScale = MAX_SCALE): number {
+  return Math.max(minScale, Math.min(scale, maxScale));
+}
+
+/**
+ * Space kept around pages when fitting them to the container
+ */
+const FIT_PADDING = 40;
+
+/**
+ * Largest scale the 'auto' mode picks for narrow pages
+ */
+const AUTO_MAX_SCALE = 1.5;
+
+/**
+ * Resolve a scale value to a numeric scale for a page of the given size
+ * (at scale 1, with rotation applied) in a container of the given size.
+ * In spread modes, `columns` pages sit side by side, `gap` CSS pixels apart.
+ */
+export function calculateScale(
+  scale: ScaleValue,
+  containerWidth: number,
+  containerHeight: number,
+  pageWidth: number,
+  pageHeight: number,
+  columns = 1,
+  gap = 0
+): number {
+  if (typeof scale === 'number') {
+    return clampScale(scale);
+  }
+
+  const availableWidth = containerWidth - FIT_PADDING - gap * (columns - 1);
+  const availableHeight = containerHeight - FIT_PADDING;
+  const rowWidth = pageWidth * columns;
+
+  switch (scale) {
+    case 'page-width':
+      return clampScale(availableWidth / rowWidth);
+    case 'page-fit':
+      return clampScale(Math.min(availableWidth / rowWidth, availableHeight / pageHeight));
+    case 'page-actual':
+      return 1;
+    case 'auto':
+    default:
+      return clampScale(Math.min(availableWidth / rowWidth, AUTO_MAX_SCALE));
+  }
+}
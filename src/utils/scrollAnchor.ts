@@ -0,0 +1,108 @@
+import { getPageElements, findVisiblePageRange, type ScrollAxis } from './pageLayout';
+
+/**
+ * A point in the document pinned to a point in the container's visible area
+ */
+export interface ScrollAnchor {
+  /** Page that contains the anchored point (1-indexed) */
+  pageNumber: number;
+  /** Horizontal position within the page, as a fraction of its width */
+  pageX: number;
+  /** Vertical position within the page, as a fraction of its height */
+  pageY: number;
+  /** Horizontal position relative to the container's visible area */
+  clientX: number;
+  /** Vertical position relative to the container's visible area */
+  clientY: number;
+}
+
+/**
+ * Squared distance from a point to a rectangle (0 when inside)
+ */
+function distanceToRect(x: number, y: number, rect: DOMRect): number {
+  const dx = Math.max(rect.left - x, 0, x - rect.right);
+  const dy = Math.max(rect.top - y, 0, y - rect.bottom);
+  return dx * dx + dy * dy;
+}
+
+/**
+ * Record which document point is under the given container point.
+ * Defaults to the center of the visible area. Pages are searched along the
+ * axis they are laid out on, the only one their edges are ordered along.
+ */
+export function captureScrollAnchor(
+  container: HTMLElement,
+  point?: { x: number; y: number },
+  axis: ScrollAxis = 'vertical'
+): ScrollAnchor | null {
+  const elements = getPageElements(container);
+  const range = findVisiblePageRange(container, elements, 0, axis);
+  if (!range) return null;
+
+  const containerRect = container.getBoundingClientRect();
+  const clientX = point?.x ?? container.clientWidth / 2;
+  const clientY = point?.y ?? container.clientHeight / 2;
+  const x = containerRect.left + clientX;
+  const y = containerRect.top + clientY;
+
+  // Pick the page under the point, or the closest one when the point is in a gap
+  let closest: HTMLElement | null = null;
+  let closestRect: DOMRect | null = null;
+  let closestDistance = Infinity;
+
+  for (let index = range.start; index <= range.end; index++) {
+    const rect = elements[index].getBoundingClientRect();
+    const distance = distanceToRect(x, y, rect);
+    if (distance < closestDistance) {
+      closest = elements[index];
+      closestRect = rect;
+      closestDistance = distance;
+    }
+    if (distance === 0) break;
+  }
+
+  if (!closest || !closestRect) return null;
+
+  return {
+    pageNumber: parseInt(closest.getAttribute('data-page-number') || '1', 10),
+    pageX: closestRect.width > 0 ? (x - closestRect.left) / closestRect.width : 0,
+    pageY: closestRect.height > 0 ? (y - closestRect.top) / closestRect.height : 0,
+    clientX,
+    clientY,
+  };
+}
+
+/**
+ * Scroll the container so the anchored document point is back under the
+ * container point it was captured at
+ */
+export function restoreScrollAnchor(container: HTMLElement, anchor: ScrollAnchor): void {
+  const element = container.querySelector(`[data-page-number="${anchor.pageNumber}"]`);
+  if (!element) return;
+
+  const containerRect = container.getBoundingClientRect();
+  const rect = element.getBoundingClientRect();
+  const x = rect.left - containerRect.left + anchor.pageX * rect.width;
+  const y = rect.top - containerRect.top + anchor.pageY * rect.height;
+
+  container.scrollLeft += x - anchor.clientX;
+  container.scrollTop += y - anchor.clientY;
+}
+
+/**
+ * Map an anchor onto its page after the page is rotated clockwise by `degrees`
+ */
+export function rotateScrollAnchor(anchor: ScrollAnchor, degrees: number): ScrollAnchor {
+  const { pageX, pageY } = anchor;
+
+  switch (((degrees % 360) + 360) % 360) {
+    case 90:
+      return { ...anchor, pageX: 1 - pageY, pageY: pageX };
+    case 180:
+      return { ...anchor, pageX: 1 - pageX, pageY: 1 - pageY };
+    case 270:
+      return { ...anchor, pageX: pageY, pageY: 1 - pageX };
+    default:
+      return anchor;
+  }
+}
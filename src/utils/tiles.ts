@@ -0,0 +1,131 @@
+/**
+ * A rectangular region of a page rendered on its own canvas, in CSS pixels
+ * relative to the top-left corner of the page
+ */
+export interface Tile {
+  key: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Region of a page that is visible, in CSS pixels relative to the page
+ */
+export interface VisibleRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Default limit on canvas pixels before a page switches to tiled rendering.
+ * This matches the maximum canvas area on iOS Safari.
+ */
+export const DEFAULT_MAX_CANVAS_PIXELS = 4096 * 4096;
+
+/**
+ * Size of a tile in CSS pixels
+ */
+export const TILE_SIZE = 512;
+
+/**
+ * Pixel limit of the low-resolution backdrop shown under the tiles
+ */
+export const BACKDROP_MAX_PIXELS = 2 * 1024 * 1024;
+
+/**
+ * Check whether a page of the given CSS size needs tiled rendering
+ */
+export function shouldUseTiles(
+  width: number,
+  height: number,
+  pixelRatio: number,
+  maxCanvasPixels: number
+): boolean {
+  return width * height * pixelRatio * pixelRatio > maxCanvasPixels;
+}
+
+/**
+ * Get the scale factor, relative to the page's CSS size, of the low-resolution
+ * backdrop rendered under the tiles
+ */
+export function getBackdropScale(width: number, height: number): number {
+  const area = width * height;
+  if (area <= 0) return 1;
+  return Math.min(1, Math.sqrt(BACKDROP_MAX_PIXELS / area));
+}
+
+/**
+ * Get the tiles of a page that intersect the visible region, extended by
+ * `margin` CSS pixels so tiles are ready just before they scroll into view
+ */
+export function getVisibleTiles(
+  pageWidth: number,
+  pageHeight: number,
+  region: VisibleRegion,
+  tileSize = TILE_SIZE,
+  margin = tileSize / 2
+): Tile[] {
+  const left = Math.max(0, region.left - margin);
+  const top = Math.max(0, region.top - margin);
+  const right = Math.min(pageWidth, region.right + margin);
+  const bottom = Math.min(pageHeight, region.bottom + margin);
+
+  if (right <= left || bottom <= top) return [];
+
+  const tiles: Tile[] = [];
+  const firstColumn = Math.floor(left / tileSize);
+  const lastColumn = Math.ceil(right / tileSize) - 1;
+  const firstRow = Math.floor(top / tileSize);
+  const lastRow = Math.ceil(bottom / tileSize) - 1;
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const x = column * tileSize;
+      const y = row * tileSize;
+      tiles.push({
+        key: `${column}:${row}`,
+        x,
+        y,
+        width: Math.min(tileSize, pageWidth - x),
+        height: Math.min(tileSize, pageHeight - y),
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Canvas pixels a page of the given CSS size holds once rendered. A tiled page
+ * holds its backdrop, plus, while it is in a viewport of `viewportSize`, the
+ * tiles covering that viewport and its margin.
+ */
+export function getPagePixels(
+  width: number,
+  height: number,
+  pixelRatio: number,
+  maxCanvasPixels: number,
+  viewportSize: { width: number; height: number } | null,
+  tileSize = TILE_SIZE,
+  margin = tileSize / 2
+): number {
+  if (!shouldUseTiles(width, height, pixelRatio, maxCanvasPixels)) {
+    return width * height * pixelRatio * pixelRatio;
+  }
+
+  const backdropScale = getBackdropScale(width, height);
+  let pixels = width * height * backdropScale * backdropScale;
+
+  if (viewportSize) {
+    // The region is extended by the margin on both sides and rounded out to whole tiles
+    const tiledWidth = Math.min(width, viewportSize.width + 2 * margin + tileSize);
+    const tiledHeight = Math.min(height, viewportSize.height + 2 * margin + tileSize);
+    pixels += tiledWidth * tiledHeight * pixelRatio * pixelRatio;
+  }
+
+  return pixels;
+}
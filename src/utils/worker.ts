@@ -1,37 +1,122 @@
 import * as pdfjs from 'pdfjs-dist';
+import { PDFViewerError, toPDFViewerError } from './errors';
+
+/**
+ * Where the PDF.js worker comes from
+ */
+export interface PDFWorkerOptions {
+  /** URL of the worker script */
+  workerSrc?: string | URL;
+  /** A worker the app started itself; takes precedence over `workerSrc` */
+  workerPort?: Worker;
+}
+
+// Time the worker has to start before loads fail instead of waiting forever
+const WORKER_START_TIMEOUT = 10000;
 
 let workerInitialized = false;
 
+// One worker serves every document, so it starts once
+let sharedWorker: pdfjs.PDFWorker | null = null;
+
+/**
+ * pdfjs-dist version in a worker URL from a CDN, such as unpkg or cdnjs
+ */
+function getWorkerSrcVersion(workerSrc: string): string | null {
+  const match = workerSrc.match(/pdfjs-dist@(\d+\.\d+\.\d+)|pdf\.js\/(\d+\.\d+\.\d+)\//);
+  return match ? match[1] ?? match[2] : null;
+}
+
 /**
  * Initialize the PDF.js worker
- * This must be called before loading any PDF documents
+ * This must be called before loading any PDF documents. A worker source the
+ * app already set on `GlobalWorkerOptions` is kept. There is no default: a
+ * URL resolved inside this package points at the app's origin once bundled,
+ * so the app resolves the worker and passes it in.
  */
-export function initializeWorker(workerSrc?: string): void {
+export function initializeWorker(options: string | URL | PDFWorkerOptions = {}): void {
   if (workerInitialized) {
     return;
   }
 
-  if (workerSrc) {
-    pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
-  } else {
-    // Try to auto-detect the worker path
-    // In production, the worker is typically bundled or served from a CDN
-    const version = pdfjs.version;
-
-    // Try common CDN paths
-    const cdnPaths = [
-      `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`,
-      `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${version}/pdf.worker.min.mjs`,
-      `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.js`,
-    ];
-
-    // Use the first CDN path by default
-    pdfjs.GlobalWorkerOptions.workerSrc = cdnPaths[0];
+  const { workerSrc, workerPort } =
+    typeof options === 'string' || options instanceof URL ? { workerSrc: options } : options;
+
+  if (workerPort) {
+    pdfjs.GlobalWorkerOptions.workerPort = workerPort;
+  } else if (workerSrc || !pdfjs.GlobalWorkerOptions.workerPort) {
+    const src = workerSrc?.toString() || pdfjs.GlobalWorkerOptions.workerSrc;
+    if (!src) {
+      throw new PDFViewerError(
+        'WORKER_FAILED',
+        'No PDF.js worker is set. Pass workerSrc or workerPort, for example ' +
+          "new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url) from your app."
+      );
+    }
+
+    // A worker from another release fails on its first message, so catch it early
+    const version = getWorkerSrcVersion(src);
+    if (version && version !== pdfjs.version) {
+      throw new PDFViewerError(
+        'WORKER_FAILED',
+        `The PDF.js worker "${src}" is version ${version}, but pdfjs-dist is version ${pdfjs.version}.`
+      );
+    }
+
+    pdfjs.GlobalWorkerOptions.workerSrc = src;
   }
 
   workerInitialized = true;
 }
 
+/**
+ * Get the worker shared by all documents, starting it if needed
+ */
+export function getWorker(): pdfjs.PDFWorker {
+  if (!sharedWorker || sharedWorker.destroyed) {
+    const port = pdfjs.GlobalWorkerOptions.workerPort;
+    sharedWorker = port ? pdfjs.PDFWorker.fromPort({ port }) : new pdfjs.PDFWorker();
+  }
+  return sharedWorker as pdfjs.PDFWorker;
+}
+
+/**
+ * Wait for a worker to start. Rejects with WORKER_FAILED if it fails or does
+ * not answer in time; the worker is then dropped, so the next load starts a
+ * new one.
+ */
+export function waitForWorker(worker: pdfjs.PDFWorker): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const fail = (error: PDFViewerError) => {
+      if (sharedWorker === worker) {
+        sharedWorker = null;
+      }
+      worker.destroy();
+      reject(error);
+    };
+
+    const timer = setTimeout(() => {
+      fail(
+        new PDFViewerError(
+          'WORKER_FAILED',
+          `The PDF.js worker did not start within ${WORKER_START_TIMEOUT / 1000} seconds.`
+        )
+      );
+    }, WORKER_START_TIMEOUT);
+
+    worker.promise.then(
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      (error: unknown) => {
+        clearTimeout(timer);
+        fail(toPDFViewerError(error, 'WORKER_FAILED'));
+      }
+    );
+  });
+}
+
 /**
  * Check if the worker has been initialized
  */
@@ -45,4 +130,6 @@ export function isWorkerInitialized(): boolean {
  */
 export function resetWorker(): void {
   workerInitialized = false;
+  sharedWorker?.destroy();
+  sharedWorker = null;
 }